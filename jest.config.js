@@ -12,7 +12,16 @@ export default {
         useESM: true,
       },
     ],
+    // p-queue and p-timeout only ship ES modules
+    '^.+\\.js$': [
+      'ts-jest',
+      {
+        useESM: true,
+        tsconfig: { allowJs: true },
+      },
+    ],
   },
+  transformIgnorePatterns: ['/node_modules/(?!(p-queue|p-timeout)/)'],
   testMatch: ['**/tests/**/*.test.ts'],
   collectCoverageFrom: [
     'src/**/*.ts',
@@ -1,16 +1,46 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { PersonioAuth } from './auth.js';
+import {
+  RetryConfig,
+  RetryPolicy,
+  RetryStats,
+  DEFAULT_READ_RETRY_POLICY,
+  DEFAULT_WRITE_RETRY_POLICY,
+  IDEMPOTENCY_KEY_HEADER,
+  isReadMethod,
+  isRetryableMethod,
+  getRetryDelay,
+  sleep
+} from './retry.js';
 import {
   PersonioApiResponse,
   PersonioEmployee,
   PersonioAbsence,
   PersonioAttendance,
   PersonioDocument,
+  PersonioTimeOffType,
   PersonioEmployeeParams,
   PersonioAbsenceParams,
+  PersonioAttendanceParams,
+  PersonioPage,
+  PersonioPaginateOptions,
   PersonioPaginationParams
 } from './types.js';
 
+const DEFAULT_PAGE_SIZE = 100;
+
+export type RequestScheduler = <R>(path: string | undefined, request: () => Promise<R>) => Promise<R>;
+
+export type RateLimitHeadersListener = (
+  path: string | undefined,
+  headers: Record<string, any>,
+  status: number
+) => void;
+
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  retryAttempt?: number;
+}
+
 export class PersonioApiError extends Error {
   constructor(
     public statusCode: number,
@@ -26,20 +56,39 @@ export class PersonioClient {
   private auth: PersonioAuth;
   private axios: AxiosInstance;
   private baseUrl: string;
+  private readRetryPolicy: RetryPolicy;
+  private writeRetryPolicy: RetryPolicy;
+  private retryStats: RetryStats = {
+    total_retries: 0,
+    retries_by_status: {},
+    exhausted: 0
+  };
 
   constructor(config: {
     clientId?: string;
     clientSecret?: string;
     apiKey?: string;
     baseUrl?: string;
+    retry?: RetryConfig;
+    onRateLimitHeaders?: RateLimitHeadersListener;
+    schedule?: RequestScheduler;
   }) {
     this.baseUrl = config.baseUrl || 'https://api.personio.de';
+    this.readRetryPolicy = { ...DEFAULT_READ_RETRY_POLICY, ...config.retry?.reads };
+    this.writeRetryPolicy = { ...DEFAULT_WRITE_RETRY_POLICY, ...config.retry?.writes };
     this.auth = new PersonioAuth(config);
     this.axios = axios.create({
       baseURL: this.baseUrl,
       timeout: 30000
     });
 
+    // Send every request, retries included, through the scheduler for its path
+    const schedule = config.schedule;
+    if (schedule) {
+      const adapter = axios.getAdapter(this.axios.defaults.adapter);
+      this.axios.defaults.adapter = (request) => schedule(request.url, () => adapter(request));
+    }
+
     // Add auth interceptor
     this.axios.interceptors.request.use(async (config) => {
       const headers = await this.auth.getAuthHeaders();
@@ -47,6 +96,23 @@ export class PersonioClient {
       return config;
     });
 
+    // Report Personio's rate-limit headers, including on errors, before any retry waits
+    const onRateLimitHeaders = config.onRateLimitHeaders;
+    if (onRateLimitHeaders) {
+      this.axios.interceptors.response.use(
+        (response) => {
+          onRateLimitHeaders(response.config.url, response.headers, response.status);
+          return response;
+        },
+        (error: AxiosError) => {
+          if (error.response) {
+            onRateLimitHeaders(error.config?.url, error.response.headers, error.response.status);
+          }
+          return Promise.reject(error);
+        }
+      );
+    }
+
     // Add error interceptor
     this.axios.interceptors.response.use(
       (response) => response,
@@ -54,7 +120,23 @@ export class PersonioClient {
     );
   }
 
-  private handleError(error: AxiosError): Promise<never> {
+  private async handleError(error: AxiosError): Promise<any> {
+    const config = error.config as RetryableRequestConfig | undefined;
+    const delay = config ? this.getRetryDelay(error, config) : undefined;
+
+    if (config && delay !== undefined) {
+      const attempt = config.retryAttempt ?? 0;
+      const status = error.response ? String(error.response.status) : 'network';
+
+      this.retryStats.total_retries++;
+      this.retryStats.retries_by_status[status] = (this.retryStats.retries_by_status[status] || 0) + 1;
+      this.retryStats.last_retry_at = new Date().toISOString();
+
+      await sleep(delay);
+      config.retryAttempt = attempt + 1;
+      return this.axios.request(config);
+    }
+
     if (error.response) {
       const { status, data } = error.response;
       const errorMessage = (data as any)?.error?.message || 'Unknown error';
@@ -67,12 +149,132 @@ export class PersonioClient {
     }
   }
 
+  // Returns the delay before the next attempt, or undefined when the request should fail now
+  private getRetryDelay(error: AxiosError, config: RetryableRequestConfig): number | undefined {
+    if (!isRetryableMethod(config.method, config.headers)) {
+      return undefined;
+    }
+
+    const policy = isReadMethod(config.method) ? this.readRetryPolicy : this.writeRetryPolicy;
+    const status = error.response?.status;
+    // Without a response the request may have reached Personio, so only retry reads
+    const retryable = status !== undefined
+      ? policy.retryOnStatus.includes(status)
+      : isReadMethod(config.method) && Boolean(error.request);
+    if (!retryable) {
+      return undefined;
+    }
+
+    const attempt = config.retryAttempt ?? 0;
+    const delay = getRetryDelay(attempt, policy, status, error.response?.headers);
+    if (attempt >= policy.maxRetries || delay > policy.maxDelayMs) {
+      this.retryStats.exhausted++;
+      return undefined;
+    }
+
+    return delay;
+  }
+
+  private idempotencyHeaders(idempotencyKey?: string): Record<string, string> {
+    return idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {};
+  }
+
+  getRetryStats(): RetryStats {
+    return {
+      ...this.retryStats,
+      retries_by_status: { ...this.retryStats.retries_by_status }
+    };
+  }
+
+  // Pagination
+  private async fetchPage<T>(path: string, params?: PersonioPaginationParams): Promise<PersonioPage<T>> {
+    const response = await this.axios.get<PersonioApiResponse<T[]>>(path, { params });
+    const data = response.data.data;
+    const metadata = response.data.metadata;
+    const limit = params?.limit ?? data.length;
+    const offset = params?.offset ?? 0;
+
+    // Prefer the element count, then the page counters (zero-based in Personio),
+    // and fall back to "a full page means there may be more"
+    let hasMore: boolean;
+    if (metadata?.total_elements !== undefined) {
+      hasMore = offset + data.length < metadata.total_elements;
+    } else if (metadata?.current_page !== undefined && metadata.total_pages !== undefined) {
+      hasMore = metadata.current_page + 1 < metadata.total_pages;
+    } else {
+      hasMore = limit > 0 && data.length >= limit;
+    }
+
+    return {
+      data,
+      limit,
+      offset,
+      current_page: metadata?.current_page,
+      total_pages: metadata?.total_pages,
+      // Known from Personio, or inferred once the last page has been reached
+      total_elements: metadata?.total_elements ?? (hasMore ? undefined : offset + data.length),
+      next_offset: hasMore && data.length > 0 ? offset + data.length : null
+    };
+  }
+
+  private async *paginate<T>(
+    path: string,
+    params: PersonioPaginationParams = {},
+    options: PersonioPaginateOptions = {}
+  ): AsyncGenerator<T> {
+    const schedule = options.schedule ?? ((request) => request());
+    const pageSize = options.pageSize ?? params.limit ?? DEFAULT_PAGE_SIZE;
+    let offset: number | null = params.offset ?? 0;
+    let yielded = 0;
+
+    while (offset !== null) {
+      const pageOffset: number = offset;
+      const page = await schedule(() =>
+        this.fetchPage<T>(path, { ...params, limit: pageSize, offset: pageOffset })
+      );
+
+      for (const item of page.data) {
+        if (options.maxItems !== undefined && yielded >= options.maxItems) {
+          return;
+        }
+        yield item;
+        yielded++;
+      }
+
+      offset = page.next_offset;
+    }
+  }
+
+  private async collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  }
+
   // Employee Methods
   async getEmployees(params?: PersonioEmployeeParams): Promise<PersonioEmployee[]> {
-    const response = await this.axios.get<PersonioApiResponse<PersonioEmployee[]>>('/v1/company/employees', {
-      params
-    });
-    return response.data.data;
+    const page = await this.getEmployeesPage(params);
+    return page.data;
+  }
+
+  async getEmployeesPage(params?: PersonioEmployeeParams): Promise<PersonioPage<PersonioEmployee>> {
+    return this.fetchPage<PersonioEmployee>('/v1/company/employees', params);
+  }
+
+  iterateEmployees(
+    params?: PersonioEmployeeParams,
+    options?: PersonioPaginateOptions
+  ): AsyncGenerator<PersonioEmployee> {
+    return this.paginate<PersonioEmployee>('/v1/company/employees', params, options);
+  }
+
+  async getAllEmployees(
+    params?: PersonioEmployeeParams,
+    options?: PersonioPaginateOptions
+  ): Promise<PersonioEmployee[]> {
+    return this.collect(this.iterateEmployees(params, options));
   }
 
   async getEmployee(id: number, attributes?: string[]): Promise<PersonioEmployee> {
@@ -100,10 +302,30 @@ export class PersonioClient {
 
   // Absence Methods
   async getAbsences(params?: PersonioAbsenceParams): Promise<PersonioAbsence[]> {
-    const response = await this.axios.get<PersonioApiResponse<PersonioAbsence[]>>('/v1/company/time-offs', {
-      params
-    });
-    return response.data.data;
+    const page = await this.getAbsencesPage(params);
+    return page.data;
+  }
+
+  async getAbsencesPage(params?: PersonioAbsenceParams): Promise<PersonioPage<PersonioAbsence>> {
+    return this.fetchPage<PersonioAbsence>('/v1/company/time-offs', params);
+  }
+
+  iterateAbsences(
+    params?: PersonioAbsenceParams,
+    options?: PersonioPaginateOptions
+  ): AsyncGenerator<PersonioAbsence> {
+    return this.paginate<PersonioAbsence>('/v1/company/time-offs', params, options);
+  }
+
+  async getAllAbsences(
+    params?: PersonioAbsenceParams,
+    options?: PersonioPaginateOptions
+  ): Promise<PersonioAbsence[]> {
+    return this.collect(this.iterateAbsences(params, options));
+  }
+
+  async getTimeOffTypes(): Promise<PersonioTimeOffType[]> {
+    return this.collect(this.paginate<PersonioTimeOffType>('/v1/company/time-off-types'));
   }
 
   async createAbsence(data: {
@@ -114,10 +336,11 @@ export class PersonioClient {
     half_day_start?: boolean;
     half_day_end?: boolean;
     comment?: string;
-  }): Promise<PersonioAbsence> {
+  }, idempotencyKey?: string): Promise<PersonioAbsence> {
     const response = await this.axios.post<PersonioApiResponse<PersonioAbsence>>(
       '/v1/company/absence-periods',
-      data
+      data,
+      { headers: this.idempotencyHeaders(idempotencyKey) }
     );
     return response.data.data;
   }
@@ -127,16 +350,27 @@ export class PersonioClient {
   }
 
   // Attendance Methods
-  async getAttendances(params?: {
-    start_date?: string;
-    end_date?: string;
-    employees?: number[];
-    projects?: number[];
-  } & PersonioPaginationParams): Promise<PersonioAttendance[]> {
-    const response = await this.axios.get<PersonioApiResponse<PersonioAttendance[]>>('/v1/company/attendances', {
-      params
-    });
-    return response.data.data;
+  async getAttendances(params?: PersonioAttendanceParams): Promise<PersonioAttendance[]> {
+    const page = await this.getAttendancesPage(params);
+    return page.data;
+  }
+
+  async getAttendancesPage(params?: PersonioAttendanceParams): Promise<PersonioPage<PersonioAttendance>> {
+    return this.fetchPage<PersonioAttendance>('/v1/company/attendances', params);
+  }
+
+  iterateAttendances(
+    params?: PersonioAttendanceParams,
+    options?: PersonioPaginateOptions
+  ): AsyncGenerator<PersonioAttendance> {
+    return this.paginate<PersonioAttendance>('/v1/company/attendances', params, options);
+  }
+
+  async getAllAttendances(
+    params?: PersonioAttendanceParams,
+    options?: PersonioPaginateOptions
+  ): Promise<PersonioAttendance[]> {
+    return this.collect(this.iterateAttendances(params, options));
   }
 
   async createAttendance(data: {
@@ -147,10 +381,11 @@ export class PersonioClient {
     break?: number;
     comment?: string;
     project_id?: number;
-  }): Promise<PersonioAttendance> {
+  }, idempotencyKey?: string): Promise<PersonioAttendance> {
     const response = await this.axios.post<PersonioApiResponse<PersonioAttendance>>(
       '/v1/company/attendances',
-      data
+      data,
+      { headers: this.idempotencyHeaders(idempotencyKey) }
     );
     return response.data.data;
   }
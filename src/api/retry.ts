@@ -0,0 +1,120 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOnStatus: number[];
+}
+
+export interface RetryConfig {
+  reads?: Partial<RetryPolicy>;
+  writes?: Partial<RetryPolicy>;
+}
+
+export interface RetryStats {
+  total_retries: number;
+  retries_by_status: Record<string, number>;
+  exhausted: number;
+  last_retry_at?: string;
+}
+
+export const DEFAULT_READ_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  retryOnStatus: [429, 500, 502, 503, 504]
+};
+
+export const DEFAULT_WRITE_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  retryOnStatus: [429, 502, 503, 504]
+};
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const READ_METHODS = ['get', 'head', 'options'];
+const IDEMPOTENT_WRITE_METHODS = ['put', 'patch', 'delete'];
+
+export function isReadMethod(method?: string): boolean {
+  return READ_METHODS.includes((method || 'get').toLowerCase());
+}
+
+// POSTs create resources, so only retry them when the caller made them idempotent
+export function isRetryableMethod(method?: string, headers?: Record<string, any>): boolean {
+  const normalized = (method || 'get').toLowerCase();
+  if (READ_METHODS.includes(normalized) || IDEMPOTENT_WRITE_METHODS.includes(normalized)) {
+    return true;
+  }
+  return normalized === 'post' && Boolean(getHeader(headers, IDEMPOTENCY_KEY_HEADER));
+}
+
+export function getHeader(headers: Record<string, any> | undefined, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  // Axios headers may be a plain object or an AxiosHeaders instance
+  const value = typeof headers.get === 'function' ? headers.get(name) : undefined;
+  if (value !== undefined && value !== null) {
+    return String(value);
+  }
+
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name.toLowerCase());
+  return key !== undefined && headers[key] !== undefined ? String(headers[key]) : undefined;
+}
+
+// Seconds and HTTP dates are both valid per RFC 9110
+export function parseRetryAfter(headers?: Record<string, any>, now: number = Date.now()): number | undefined {
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (retryAfter === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export function parseRateLimitReset(headers?: Record<string, any>, now: number = Date.now()): number | undefined {
+  const reset = getHeader(headers, 'x-ratelimit-reset');
+  if (reset === undefined || Number.isNaN(Number(reset))) {
+    return undefined;
+  }
+
+  const value = Number(reset);
+  // Values this large are epoch seconds rather than a relative delay
+  return value > 1e9 ? Math.max(0, value * 1000 - now) : Math.max(0, value * 1000);
+}
+
+// Exponential backoff with full jitter
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  status?: number,
+  headers?: Record<string, any>,
+  random?: () => number
+): number {
+  const serverDelay = parseRetryAfter(headers)
+    ?? (status === 429 ? parseRateLimitReset(headers) : undefined);
+  if (serverDelay !== undefined) {
+    return serverDelay;
+  }
+  return computeBackoffDelay(attempt, policy, random);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
\ No newline at end of file
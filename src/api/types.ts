@@ -96,6 +96,21 @@ export interface PersonioAttendance {
   updated_at: string;
 }
 
+export interface PersonioTimeOffType {
+  type: 'TimeOffType';
+  attributes: {
+    id: number;
+    name: string;
+    category?: string | null;
+    unit?: 'day' | 'hour';
+    half_day_requests_enabled?: boolean;
+    certification_required?: boolean;
+    certification_submission_timeframe?: number | null;
+    approval_required?: boolean;
+    [key: string]: any;
+  };
+}
+
 export interface PersonioDocument {
   id: string;
   employee_id: number;
@@ -128,6 +143,23 @@ export interface PersonioPaginationParams {
   page?: number;
 }
 
+export interface PersonioPage<T> {
+  data: T[];
+  limit: number;
+  offset: number;
+  current_page?: number;
+  total_pages?: number;
+  total_elements?: number;
+  next_offset: number | null;
+}
+
+export interface PersonioPaginateOptions {
+  pageSize?: number;
+  maxItems?: number;
+  // Wraps every page request, e.g. to route it through the rate limiter
+  schedule?: <R>(request: () => Promise<R>) => Promise<R>;
+}
+
 export interface PersonioEmployeeParams extends PersonioPaginationParams {
   attributes?: string[];
   updated_since?: string;
@@ -139,4 +171,11 @@ export interface PersonioAbsenceParams extends PersonioPaginationParams {
   employees?: number[];
   status?: 'approved' | 'pending' | 'rejected' | 'canceled';
   time_off_types?: number[];
+}
+
+export interface PersonioAttendanceParams extends PersonioPaginationParams {
+  start_date?: string;
+  end_date?: string;
+  employees?: number[];
+  projects?: number[];
 }
\ No newline at end of file
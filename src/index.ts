@@ -1,6 +1,37 @@
 #!/usr/bin/env node
 import 'dotenv/config';
 import { PersonioMCPServer } from './server.js';
+import { WriteCheck } from './utils/compliance.js';
+
+const WRITE_CHECKS: WriteCheck[] = ['off', 'warn', 'block'];
+
+// Misspelled settings fail at startup instead of silently turning a feature off
+function readNumber(name: string): number | undefined {
+  const value = process.env[name];
+  if (!value) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+function readInteger(name: string, fallback: number): number {
+  const number = readNumber(name) ?? fallback;
+  if (!Number.isInteger(number)) {
+    throw new Error(`${name} must be a whole number, got "${process.env[name]}"`);
+  }
+  return number;
+}
+
+function readChoice<T extends string>(name: string, choices: T[], fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  if (!choices.includes(value as T)) {
+    throw new Error(`${name} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
 
 async function main() {
   try {
@@ -24,13 +55,58 @@ async function main() {
       apiKey: process.env.PERSONIO_API_KEY,
       baseUrl: process.env.PERSONIO_API_URL,
       cache: {
-        employeesTTL: parseInt(process.env.CACHE_TTL_EMPLOYEES || '300'),
-        organizationTTL: parseInt(process.env.CACHE_TTL_ORGANIZATION || '3600'),
-        policiesTTL: parseInt(process.env.CACHE_TTL_POLICIES || '86400')
+        employeesTTL: readInteger('CACHE_TTL_EMPLOYEES', 300),
+        organizationTTL: readInteger('CACHE_TTL_ORGANIZATION', 3600),
+        policiesTTL: readInteger('CACHE_TTL_POLICIES', 86400)
       },
       rateLimit: {
-        requestsPerMinute: parseInt(process.env.RATE_LIMIT_PER_MINUTE || '60'),
-        burstLimit: parseInt(process.env.RATE_LIMIT_BURST || '15')
+        requestsPerMinute: readInteger('RATE_LIMIT_PER_MINUTE', 60),
+        burstLimit: readInteger('RATE_LIMIT_BURST', 15),
+        buckets: {
+          documents: {
+            requestsPerMinute: readInteger('RATE_LIMIT_DOCUMENTS_PER_MINUTE', 60)
+          }
+        }
+      },
+      holidays: {
+        region: process.env.HOLIDAY_REGION || 'DE'
+      },
+      coverage: {
+        minimumPresent: readNumber('COVERAGE_MIN_PRESENT'),
+        minimumRatio: readNumber('COVERAGE_MIN_RATIO')
+      },
+      organization: {
+        name: process.env.ORGANIZATION_NAME,
+        trendMonths: readInteger('HEADCOUNT_TREND_MONTHS', 12)
+      },
+      sync: {
+        intervalMinutes: readInteger('EMPLOYEE_SYNC_INTERVAL_MINUTES', 5),
+        fullReloadHours: readInteger('EMPLOYEE_SYNC_FULL_RELOAD_HOURS', 24)
+      },
+      compliance: {
+        ruleSet: process.env.COMPLIANCE_RULE_SET || 'arbzg',
+        writeCheck: readChoice('COMPLIANCE_WRITE_CHECK', WRITE_CHECKS, 'warn')
+      },
+      attendance: {
+        timeZone: process.env.ATTENDANCE_TIMEZONE || 'Europe/Berlin',
+        timeZoneAttribute: process.env.ATTENDANCE_TIMEZONE_ATTRIBUTE
+      },
+      sessions: {
+        directory: process.env.SESSION_DIR
+      },
+      snapshots: {
+        directory: process.env.SNAPSHOT_DIR,
+        intervalMinutes: readInteger('SNAPSHOT_INTERVAL_MINUTES', 1440),
+        retention: readInteger('SNAPSHOT_RETENTION', 365),
+        historyDays: readInteger('SNAPSHOT_HISTORY_DAYS', 90)
+      },
+      retry: {
+        reads: {
+          maxRetries: readInteger('RETRY_MAX_READS', 3)
+        },
+        writes: {
+          maxRetries: readInteger('RETRY_MAX_WRITES', 2)
+        }
       }
     };
 
@@ -64,4 +140,5 @@ if (import.meta.url === `file://${process.argv[1]}`) {
 
 export { PersonioMCPServer } from './server.js';
 export { PersonioClient } from './api/client.js';
+export type { RetryConfig, RetryPolicy, RetryStats } from './api/retry.js';
 export * from './api/types.js';
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, definePrompt, userMessage } from './registry.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { foldText } from '../utils/completion.js';
+import { EmployeeDirectory, departmentName, employeeId, employeeName } from '../utils/directory.js';
+
+const absenceRequestSchema = z.object({
+  employee_name: z.string().min(1).describe('Name of the employee'),
+  start_date: z.string().date().describe('Start date of absence (YYYY-MM-DD)'),
+  end_date: z.string().date().describe('End date of absence (YYYY-MM-DD)'),
+  reason: z.string().optional().describe('Reason for absence'),
+  absence_type: z.string().optional().describe('Name of the absence type, if already known')
+});
+
+export class AbsencePrompts {
+  constructor(
+    private directory: EmployeeDirectory,
+    private tools: ToolRegistry
+  ) {}
+
+  getPrompts(): PromptDefinition[] {
+    return [
+      definePrompt({
+        name: 'absence_request',
+        description: 'Create a well-formatted absence request',
+        schema: absenceRequestSchema,
+        completions: { employee_name: 'employee', absence_type: 'time_off_type' },
+        render: (params) => this.renderAbsenceRequest(params)
+      })
+    ];
+  }
+
+  private async renderAbsenceRequest(params: z.infer<typeof absenceRequestSchema>): Promise<PromptMessage[]> {
+    const { employee, others } = await this.directory.resolveByName(params.employee_name);
+    const id = employeeId(employee);
+
+    const [balances, types] = await Promise.all([
+      this.tools.call('get_employee_absence_balance', { employee_id: id }),
+      this.tools.call('get_absence_types', {})
+    ]);
+
+    const lines = [
+      `Please prepare an absence request for ${employeeName(employee)} (employee ID ${id}, ${departmentName(employee) ?? 'no department'}) from ${params.start_date} to ${params.end_date}.`,
+      params.reason ? `Reason: ${params.reason}` : 'No reason was given.',
+      ...(params.absence_type ? [this.describeRequestedType(params.absence_type, types.absence_types)] : []),
+      '',
+      'Remaining balances:',
+      ...(Array.isArray(balances) && balances.length > 0
+        ? balances.map((balance: any) => `- ${balance.name} (ID ${balance.id}): ${balance.balance}`)
+        : ['- No balance information available']),
+      '',
+      'Valid absence types:',
+      ...types.absence_types.map(
+        (type: any) =>
+          `- ${type.name} (time_off_type_id ${type.id}, ${type.unit}s${type.half_day_requests_enabled ? ', half days allowed' : ''})`
+      ),
+      '',
+      'Pick the absence type that fits the reason and use calculate_absence_days to check how many working days it uses against the balance. Summarize the request for me to confirm before calling create_absence_request.'
+    ];
+
+    if (others.length > 0) {
+      lines.push(
+        '',
+        `Other employees also match "${params.employee_name}": ${others
+          .map((other) => `${employeeName(other)} (ID ${employeeId(other)})`)
+          .join(', ')}. Check with me that the right person was picked.`
+      );
+    }
+
+    return [userMessage(lines.join('\n'))];
+  }
+
+  private describeRequestedType(name: string, types: any[]): string {
+    const match = types.find((type) => foldText(type.name) === foldText(name));
+    return match
+      ? `Requested absence type: ${match.name} (time_off_type_id ${match.id})`
+      : `Requested absence type "${name}" is not configured in Personio; suggest one of the valid types instead.`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, ResourceReader, definePrompt, resourceMessage, userMessage } from './registry.js';
+import { PersonioClient } from '../api/client.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { HolidayCalendar } from '../utils/holidays.js';
+import { EmployeeDirectory, employeeId, employeeName } from '../utils/directory.js';
+import { AttendanceTimeOptions, employeeTimeZone, summarizeAttendances, workedMinutes } from '../utils/attendance.js';
+import { calculateWorkingDays, scheduleFromEmployee, DEFAULT_WEEKLY_SCHEDULE } from '../utils/workingDays.js';
+import { parsePeriod } from '../utils/dates.js';
+
+const WORKING_HOURS_URI = 'personio://policies/working-hours';
+
+const overtimeReviewSchema = z.object({
+  employee_name: z.string().min(1).describe('Name of the employee'),
+  period: z.string()
+    .refine((period) => parsePeriod(period) !== null, 'Expected a period such as 2025, Q1 2025, H2 2025, 2025-03 or 2025-01-01 to 2025-06-30')
+    .describe('Period to review (e.g. 2025-03, Q1 2025)')
+});
+
+export class AttendancePrompts {
+  constructor(
+    private client: PersonioClient,
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private holidayCalendar: HolidayCalendar,
+    private readResource: ResourceReader,
+    private time: AttendanceTimeOptions = {}
+  ) {}
+
+  getPrompts(): PromptDefinition[] {
+    return [
+      definePrompt({
+        name: 'overtime_review',
+        description: 'Review an employee\'s recorded hours against their expected hours and the overtime policy',
+        schema: overtimeReviewSchema,
+        completions: { employee_name: 'employee', period: 'period' },
+        render: (params) => this.renderOvertimeReview(params)
+      })
+    ];
+  }
+
+  private async renderOvertimeReview(params: z.infer<typeof overtimeReviewSchema>): Promise<PromptMessage[]> {
+    const { employee } = await this.directory.resolveByName(params.employee_name);
+    const period = parsePeriod(params.period)!;
+    const id = employeeId(employee);
+
+    const [attendances, holidays, policy] = await Promise.all([
+      this.client.getAllAttendances(
+        { ...period, employees: [id] },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.holidayCalendar.getHolidaysBetween(period.start_date, period.end_date),
+      this.readResource(WORKING_HOURS_URI)
+    ]);
+
+    // Expected hours follow the employee's weekly schedule, skipping holidays
+    const schedule = scheduleFromEmployee(employee) ?? DEFAULT_WEEKLY_SCHEDULE;
+    const workingDays = calculateWorkingDays({
+      startDate: period.start_date,
+      endDate: period.end_date,
+      schedule,
+      holidays
+    });
+    const expectedHours = workingDays.days.reduce(
+      (total, day) => total + day.counted * schedule[day.weekday],
+      0
+    );
+
+    const timeZone = employeeTimeZone(employee, this.time);
+    const summary = summarizeAttendances(attendances, timeZone);
+    const overtime = Math.round((summary.total_hours - expectedHours) * 100) / 100;
+    const longDays = attendances.filter((attendance) => workedMinutes(attendance, timeZone) > 10 * 60);
+
+    const lines = [
+      `Review the overtime of ${employeeName(employee)} (employee ID ${id}) from ${period.start_date} to ${period.end_date}.`,
+      '',
+      `- Expected hours: ${expectedHours} over ${workingDays.working_days} working days`,
+      `- Recorded hours: ${summary.total_hours} over ${summary.days_worked} days`,
+      `- Balance: ${overtime > 0 ? '+' : ''}${overtime} hours`,
+      `- Days over 10 hours: ${longDays.length > 0 ? longDays.map((attendance) => attendance.date).join(', ') : 'none'}`,
+      '',
+      'Compare the balance with the overtime rules in the attached working-hours policy (rates, monthly limit, approval). Say whether the overtime needs approval or compensation and point out days worth discussing with the employee.'
+    ];
+
+    return [userMessage(lines.join('\n')), resourceMessage(WORKING_HOURS_URI, policy)];
+  }
+}
\ No newline at end of file
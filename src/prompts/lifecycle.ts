@@ -0,0 +1,162 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, definePrompt, userMessage } from './registry.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { PersonioEmployee } from '../api/types.js';
+import {
+  EmployeeDirectory,
+  departmentName,
+  employeeId,
+  employeeName,
+  isActive,
+  supervisorId
+} from '../utils/directory.js';
+import { formatDate } from '../utils/dates.js';
+
+// Profile fields a new hire needs before their first day
+const ONBOARDING_FIELDS = [
+  'email',
+  'position',
+  'department',
+  'supervisor',
+  'hire_date',
+  'weekly_working_hours',
+  'employment_type',
+  'office'
+];
+
+const onboardingChecklistSchema = z.object({
+  employee_name: z.string().min(1).describe('Name of the new hire')
+});
+
+const offboardingChecklistSchema = z.object({
+  employee_name: z.string().min(1).describe('Name of the leaving employee')
+});
+
+function dateValue(employee: PersonioEmployee, attribute: string): string | undefined {
+  const value = employee.attributes[attribute]?.value;
+  return typeof value === 'string' && value !== '' ? value.slice(0, 10) : undefined;
+}
+
+function isMissing(employee: PersonioEmployee, attribute: string): boolean {
+  const value = employee.attributes[attribute]?.value;
+  return value === undefined || value === null || value === '';
+}
+
+export class LifecyclePrompts {
+  constructor(
+    private directory: EmployeeDirectory,
+    private tools: ToolRegistry
+  ) {}
+
+  getPrompts(): PromptDefinition[] {
+    return [
+      definePrompt({
+        name: 'onboarding_checklist',
+        description: 'Onboarding checklist for a new hire with their department, manager and missing profile data and documents',
+        schema: onboardingChecklistSchema,
+        completions: { employee_name: 'employee' },
+        render: (params) => this.renderOnboardingChecklist(params)
+      }),
+      definePrompt({
+        name: 'offboarding_checklist',
+        description: 'Offboarding checklist for a leaving employee with remaining balances, open absences and direct reports to reassign',
+        schema: offboardingChecklistSchema,
+        completions: { employee_name: 'employee' },
+        render: (params) => this.renderOffboardingChecklist(params)
+      })
+    ];
+  }
+
+  private async renderOnboardingChecklist(params: z.infer<typeof onboardingChecklistSchema>): Promise<PromptMessage[]> {
+    const { employee } = await this.directory.resolveByName(params.employee_name);
+    const [manager, categories] = await Promise.all([
+      this.findManager(employee),
+      this.tools.call('list_document_categories', {})
+    ]);
+    const missing = ONBOARDING_FIELDS.filter((field) => isMissing(employee, field));
+
+    const lines = [
+      `Create an onboarding checklist for ${employeeName(employee)} (employee ID ${employeeId(employee)}).`,
+      '',
+      'New hire:',
+      `- Position: ${employee.attributes.position?.value ?? 'not set'}`,
+      `- Department: ${departmentName(employee) ?? 'not set'}`,
+      `- Manager: ${manager ? `${employeeName(manager)} (ID ${employeeId(manager)})` : 'not set'}`,
+      `- Start date: ${dateValue(employee, 'hire_date') ?? 'not set'}`,
+      '',
+      missing.length > 0
+        ? `Missing profile data in Personio: ${missing.join(', ')}`
+        : 'The Personio profile has all core onboarding fields.',
+      '',
+      'Document categories to collect (the Personio API does not list uploaded documents, so confirm each one):',
+      ...this.categoryNames(categories).map((name) => `- ${name}`),
+      '',
+      'Group the checklist into before day one, first day, first week and first month. Include the missing profile data and documents as HR tasks and the manager introduction as a manager task.'
+    ];
+
+    return [userMessage(lines.join('\n'))];
+  }
+
+  private async renderOffboardingChecklist(params: z.infer<typeof offboardingChecklistSchema>): Promise<PromptMessage[]> {
+    const { employee } = await this.directory.resolveByName(params.employee_name);
+    const id = employeeId(employee);
+    const today = formatDate(new Date());
+
+    const [employees, balances, upcoming, categories] = await Promise.all([
+      this.directory.getEmployees(),
+      this.tools.call('get_employee_absence_balance', { employee_id: id }),
+      this.tools.call('list_absences', { employee_ids: [id], start_date: today }),
+      this.tools.call('list_document_categories', {})
+    ]);
+    const reports = employees.filter(
+      (candidate) => isActive(candidate) && supervisorId(candidate) === id
+    );
+
+    const lines = [
+      `Create an offboarding checklist for ${employeeName(employee)} (employee ID ${id}, ${employee.attributes.position?.value ?? 'no position'}, ${departmentName(employee) ?? 'no department'}).`,
+      '',
+      `- Termination date: ${dateValue(employee, 'termination_date') ?? 'not set in Personio'}`,
+      `- Last working day: ${dateValue(employee, 'last_working_day') ?? 'not set in Personio'}`,
+      '',
+      'Remaining balances (to be taken or paid out):',
+      ...(Array.isArray(balances) && balances.length > 0
+        ? balances.map((balance: any) => `- ${balance.name}: ${balance.balance}`)
+        : ['- No balance information available']),
+      '',
+      'Absences from today on:',
+      ...(upcoming.absences.length > 0
+        ? upcoming.absences.map(
+          (absence: any) => `- ${absence.type.name} ${absence.dates.start} to ${absence.dates.end} (${absence.status})`
+        )
+        : ['- None']),
+      '',
+      'Direct reports who need a new manager:',
+      ...(reports.length > 0
+        ? reports.map((report) => `- ${employeeName(report)} (ID ${employeeId(report)})`)
+        : ['- None']),
+      '',
+      'Document categories to review for final paperwork:',
+      ...this.categoryNames(categories).map((name) => `- ${name}`),
+      '',
+      'Cover knowledge handover, access removal, equipment return, final payroll including the remaining balances, and the exit interview.'
+    ];
+
+    return [userMessage(lines.join('\n'))];
+  }
+
+  private async findManager(employee: PersonioEmployee): Promise<PersonioEmployee | undefined> {
+    const managerId = supervisorId(employee);
+    if (managerId === undefined) {
+      return undefined;
+    }
+    const employees = await this.directory.getEmployees();
+    return employees.find((candidate) => employeeId(candidate) === managerId);
+  }
+
+  private categoryNames(categories: { categories: { name: string; required: boolean }[] }): string[] {
+    return categories.categories.length > 0
+      ? categories.categories.map((category) => `${category.name}${category.required ? ' (required)' : ''}`)
+      : ['No document categories configured'];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, ResourceReader, definePrompt, resourceMessage, userMessage } from './registry.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { EmployeeDirectory, employeeId, employeeName } from '../utils/directory.js';
+
+const POLICY_URIS = [
+  'personio://policies/absence-types',
+  'personio://policies/working-hours',
+  'personio://policies/holidays'
+];
+
+const leavePolicyQuestionSchema = z.object({
+  question: z.string().min(1).describe('The leave or working-time question to answer'),
+  employee_name: z.string().optional()
+    .describe('Employee the question is about, to include their balances')
+});
+
+export class PolicyPrompts {
+  constructor(
+    private directory: EmployeeDirectory,
+    private tools: ToolRegistry,
+    private readResource: ResourceReader
+  ) {}
+
+  getPrompts(): PromptDefinition[] {
+    return [
+      definePrompt({
+        name: 'leave_policy_question',
+        description: 'Answer a leave policy question from the absence types, working-hours policy and holiday calendar',
+        schema: leavePolicyQuestionSchema,
+        completions: { employee_name: 'employee' },
+        render: (params) => this.renderLeavePolicyQuestion(params)
+      })
+    ];
+  }
+
+  private async renderLeavePolicyQuestion(params: z.infer<typeof leavePolicyQuestionSchema>): Promise<PromptMessage[]> {
+    const policies = await Promise.all(POLICY_URIS.map((uri) => this.readResource(uri)));
+
+    const lines = [
+      `Answer this question using only the attached Personio policies: ${params.question}`
+    ];
+
+    if (params.employee_name) {
+      const { employee } = await this.directory.resolveByName(params.employee_name);
+      const balances = await this.tools.call('get_employee_absence_balance', {
+        employee_id: employeeId(employee)
+      });
+      lines.push(
+        '',
+        `The question is about ${employeeName(employee)} (employee ID ${employeeId(employee)}). Their balances:`,
+        ...(Array.isArray(balances) && balances.length > 0
+          ? balances.map((balance: any) => `- ${balance.name}: ${balance.balance}`)
+          : ['- No balance information available'])
+      );
+    }
+
+    lines.push(
+      '',
+      'Quote the relevant policy values. If the policies do not cover the question, say so instead of guessing.'
+    );
+
+    return [
+      userMessage(lines.join('\n')),
+      ...POLICY_URIS.map((uri, index) => resourceMessage(uri, policies[index]))
+    ];
+  }
+}
\ No newline at end of file
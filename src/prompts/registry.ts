@@ -0,0 +1,93 @@
+import { GetPromptResult, Prompt, PromptArgument, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { PersonioMCPError, validationErrorFromZod } from '../utils/errors.js';
+import { CompletionSource } from '../utils/completion.js';
+
+// Resource reads go through the server so prompts see the same data as clients
+export type ResourceReader = (uri: string) => Promise<any>;
+
+// Prompt arguments always arrive as strings, so schemas are objects of string fields
+export interface PromptDefinition<S extends z.AnyZodObject = any> {
+  name: string;
+  description: string;
+  schema: S;
+  completions?: Partial<Record<keyof z.infer<S>, CompletionSource>>;
+  render: (params: z.infer<S>) => Promise<PromptMessage[]>;
+}
+
+// Derive the advertised arguments from the zod schema the prompt is validated against
+function toArguments(schema: z.AnyZodObject): PromptArgument[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, field]) => ({
+    name,
+    description: field.description,
+    required: !field.isOptional()
+  }));
+}
+
+// Helper so render functions get their params typed from the schema
+export function definePrompt<S extends z.AnyZodObject>(definition: PromptDefinition<S>): PromptDefinition<S> {
+  return definition;
+}
+
+export function userMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+export function resourceMessage(uri: string, data: any): PromptMessage {
+  return {
+    role: 'user',
+    content: {
+      type: 'resource',
+      resource: { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }
+    }
+  };
+}
+
+export class PromptRegistry {
+  private prompts: Map<string, PromptDefinition> = new Map();
+
+  register(...definitions: PromptDefinition[]): void {
+    for (const definition of definitions) {
+      if (this.prompts.has(definition.name)) {
+        throw new PersonioMCPError(
+          `Prompt registered more than once: ${definition.name}`,
+          'DUPLICATE_PROMPT'
+        );
+      }
+      this.prompts.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.prompts.has(name);
+  }
+
+  list(): Prompt[] {
+    return Array.from(this.prompts.values()).map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      arguments: toArguments(definition.schema)
+    }));
+  }
+
+  completionSource(name: string, argument: string): CompletionSource | undefined {
+    return this.prompts.get(name)?.completions?.[argument];
+  }
+
+  async get(name: string, args?: Record<string, string>): Promise<GetPromptResult> {
+    const definition = this.prompts.get(name);
+    if (!definition) {
+      throw new PersonioMCPError(`Unknown prompt: ${name}`, 'UNKNOWN_PROMPT');
+    }
+
+    const parsed = definition.schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      throw validationErrorFromZod(parsed.error, name);
+    }
+
+    return {
+      description: definition.description,
+      messages: await definition.render(parsed.data)
+    };
+  }
+}
\ No newline at end of file
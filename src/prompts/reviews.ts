@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, definePrompt, userMessage } from './registry.js';
+import { PersonioClient } from '../api/client.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { EmployeeDirectory, departmentName, employeeId, employeeName } from '../utils/directory.js';
+import { AttendanceTimeOptions, employeeTimeZone, summarizeAttendances } from '../utils/attendance.js';
+import { parsePeriod } from '../utils/dates.js';
+
+const performanceReviewSchema = z.object({
+  employee_name: z.string().min(1).describe('Name of the employee'),
+  review_period: z.string()
+    .refine((period) => parsePeriod(period) !== null, 'Expected a period such as 2025, Q1 2025, H2 2025, 2025-03 or 2025-01-01 to 2025-06-30')
+    .describe('Period being reviewed (e.g. 2025, Q1 2025, 2025-01-01 to 2025-06-30)')
+});
+
+export class ReviewPrompts {
+  constructor(
+    private client: PersonioClient,
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private time: AttendanceTimeOptions = {}
+  ) {}
+
+  getPrompts(): PromptDefinition[] {
+    return [
+      definePrompt({
+        name: 'performance_review',
+        description: 'Generate a performance review template',
+        schema: performanceReviewSchema,
+        completions: { employee_name: 'employee', review_period: 'period' },
+        render: (params) => this.renderPerformanceReview(params)
+      })
+    ];
+  }
+
+  private async renderPerformanceReview(params: z.infer<typeof performanceReviewSchema>): Promise<PromptMessage[]> {
+    const { employee } = await this.directory.resolveByName(params.employee_name);
+    const period = parsePeriod(params.review_period)!;
+    const id = employeeId(employee);
+
+    const [attendances, absences] = await Promise.all([
+      this.client.getAllAttendances(
+        { ...period, employees: [id] },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.client.getAllAbsences(
+        { ...period, employees: [id], status: 'approved' },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      )
+    ]);
+    const summary = summarizeAttendances(attendances, employeeTimeZone(employee, this.time));
+
+    const lines = [
+      `Draft a performance review template for ${employeeName(employee)} covering ${period.start_date} to ${period.end_date} (${params.review_period}).`,
+      '',
+      'Employee:',
+      `- Position: ${employee.attributes.position?.value ?? 'unknown'}`,
+      `- Department: ${departmentName(employee) ?? 'unknown'}`,
+      `- Hire date: ${employee.attributes.hire_date?.value ?? 'unknown'}`,
+      '',
+      'Attendance in the review period:',
+      `- Days with recorded attendance: ${summary.days_worked}`,
+      `- Recorded hours: ${summary.total_hours} (average ${summary.average_hours_per_day} per day)`,
+      `- Approved absences: ${absences.length} (${absences.reduce((total, absence) => total + (absence.days_count ?? 0), 0)} days)`,
+      '',
+      'Structure the template with sections for goals and achievements, competencies for the position, collaboration, development areas and next-period goals. Use the attendance figures only as context and leave placeholders where manager input is needed.'
+    ];
+
+    return [userMessage(lines.join('\n'))];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition, definePrompt, userMessage } from './registry.js';
+import { ToolRegistry } from '../tools/registry.js';
+import { PersonioClient } from '../api/client.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { EmployeeDirectory, employeeId, employeeName } from '../utils/directory.js';
+import { AttendanceTimeOptions, employeeTimeZone, findAttendanceAnomalies } from '../utils/attendance.js';
+import { PersonioMCPError } from '../utils/errors.js';
+import { addDays, formatDate, parseDate, startOfWeek } from '../utils/dates.js';
+
+const weeklyTeamDigestSchema = z.object({
+  department: z.string().optional().describe('Department to report on'),
+  manager_name: z.string().optional().describe('Manager whose direct reports to report on'),
+  week: z.string().date().optional()
+    .describe('Any date in the week to report on (YYYY-MM-DD); defaults to the current week')
+});
+
+export class TeamPrompts {
+  constructor(
+    private client: PersonioClient,
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private tools: ToolRegistry,
+    private time: AttendanceTimeOptions = {}
+  ) {}
+
+  getPrompts(): PromptDefinition[] {
+    return [
+      definePrompt({
+        name: 'weekly_team_digest',
+        description: 'Weekly digest of a team\'s absences, understaffed days and attendance anomalies',
+        schema: weeklyTeamDigestSchema,
+        completions: { department: 'department', manager_name: 'employee' },
+        render: (params) => this.renderWeeklyTeamDigest(params)
+      })
+    ];
+  }
+
+  private async renderWeeklyTeamDigest(params: z.infer<typeof weeklyTeamDigestSchema>): Promise<PromptMessage[]> {
+    if (!params.department && !params.manager_name) {
+      throw new PersonioMCPError('Provide a department or a manager_name', 'VALIDATION_ERROR');
+    }
+
+    const start = startOfWeek(params.week ?? formatDate(new Date()));
+    const end = formatDate(addDays(parseDate(start), 6));
+
+    const manager = params.manager_name
+      ? (await this.directory.resolveByName(params.manager_name)).employee
+      : undefined;
+    const availability = await this.tools.call('team_availability', {
+      department: params.department,
+      manager_id: manager ? employeeId(manager) : undefined,
+      start_date: start,
+      end_date: end
+    });
+
+    const names = new Map<number, string>(availability.team.map((member: any) => [member.id, member.name]));
+    const attendances = await this.client.getAllAttendances(
+      { start_date: start, end_date: end, employees: Array.from(names.keys()) },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+    const employees = this.time.timeZoneAttribute ? await this.directory.getEmployees() : [];
+    const anomalies = findAttendanceAnomalies(attendances, (id) =>
+      employeeTimeZone(employees.find((employee) => employeeId(employee) === id), this.time)
+    );
+
+    // Attendance recorded on a day the person is booked as fully absent
+    const absentDays = new Set<string>();
+    for (const day of availability.days) {
+      for (const [id, cell] of Object.entries<any>(day.employees)) {
+        if (cell.status === 'absent') absentDays.add(`${id}:${day.date}`);
+      }
+    }
+    const duringAbsence = attendances.filter((attendance) => absentDays.has(`${attendance.employee}:${attendance.date}`));
+
+    const absenceLines: string[] = [];
+    for (const day of availability.days) {
+      for (const [id, cell] of Object.entries<any>(day.employees)) {
+        if (cell.status === 'absent' || cell.status === 'half_day') {
+          const what = cell.absence_type ?? cell.holiday ?? 'absent';
+          absenceLines.push(
+            `- ${day.date}: ${names.get(Number(id))} - ${what}${cell.status === 'half_day' ? ' (half day)' : ''}${cell.absence_status === 'pending' ? ' (pending)' : ''}`
+          );
+        }
+      }
+    }
+
+    const team = [
+      params.department ? `the ${params.department} department` : undefined,
+      manager ? `${employeeName(manager)}'s direct reports` : undefined
+    ].filter(Boolean).join(' / ');
+
+    const lines = [
+      `Write a weekly digest for ${team} covering ${start} to ${end} (${availability.team.length} people).`,
+      '',
+      'Absences:',
+      ...(absenceLines.length > 0 ? absenceLines : ['- None']),
+      '',
+      `Understaffed days: ${availability.understaffed_days.length > 0 ? availability.understaffed_days.join(', ') : 'none'}`,
+      '',
+      'Attendance anomalies:',
+      ...anomalies.map((anomaly) => `- ${anomaly.date}: ${names.get(anomaly.employee_id)} - ${anomaly.issue.replace('_', ' ')} (${anomaly.detail})`),
+      ...duringAbsence.map((attendance) => `- ${attendance.date}: ${names.get(attendance.employee)} - attendance recorded during an absence`),
+      ...(anomalies.length + duringAbsence.length === 0 ? ['- None'] : []),
+      '',
+      'Keep it short: who is out and when, coverage risks to plan around, and anomalies the manager should follow up on.'
+    ];
+
+    return [userMessage(lines.join('\n'))];
+  }
+}
\ No newline at end of file
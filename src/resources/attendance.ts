@@ -0,0 +1,38 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { SessionStore, describeSession } from '../utils/sessions.js';
+
+export class AttendanceResources {
+  constructor(private store: SessionStore) {}
+
+  getResources(): Resource[] {
+    return [
+      {
+        uri: 'personio://attendance/current-sessions',
+        name: 'Current Clock Sessions',
+        description: 'Employees currently clocked in with clock_in, whether they are on a break and their time so far',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [];
+  }
+
+  async handleResourceRead(uri: string): Promise<any> {
+    switch (uri) {
+      case 'personio://attendance/current-sessions': {
+        const now = new Date();
+        const sessions = (await this.store.list()).map((session) => describeSession(session, now));
+        return {
+          sessions,
+          working: sessions.filter((session) => session.status === 'working').length,
+          on_break: sessions.filter((session) => session.status === 'on_break').length,
+          as_of: now.toISOString()
+        };
+      }
+      default:
+        throw new Error(`Unknown attendance resource: ${uri}`);
+    }
+  }
+}
\ No newline at end of file
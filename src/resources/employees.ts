@@ -1,13 +1,36 @@
-import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
 import { PersonioClient } from '../api/client.js';
 import { CacheManager } from '../utils/cache.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
+import { PersonioEmployee } from '../api/types.js';
+import { CompletionSource } from '../utils/completion.js';
+import { EmployeeDirectory, departmentName, employeeId, employeeName, supervisorId } from '../utils/directory.js';
+import { AttendanceTimeOptions, employeeTimeZone, summarizeAttendances, workedMinutes } from '../utils/attendance.js';
+import { lastDayOfMonth } from '../utils/dates.js';
+
+const EMPLOYEE_URI = /^personio:\/\/employees\/(\d+)$/;
+const ABSENCES_URI = /^personio:\/\/employees\/(\d+)\/absences$/;
+const ATTENDANCE_URI = /^personio:\/\/employees\/(\d+)\/attendance\/(\d{4})-(0[1-9]|1[0-2])$/;
+const BALANCE_URI = /^personio:\/\/employees\/(\d+)\/balance$/;
+
+// Profile attributes shown besides the core fields
+const PROFILE_ATTRIBUTES = [
+  'hire_date',
+  'termination_date',
+  'employment_type',
+  'weekly_working_hours',
+  'office',
+  'subcompany',
+  'cost_centers'
+];
 
 export class EmployeeResources {
   constructor(
     private client: PersonioClient,
     private cache: CacheManager,
-    private rateLimiter: RateLimiter
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private time: AttendanceTimeOptions = {}
   ) {}
 
   getResources(): Resource[] {
@@ -33,6 +56,42 @@ export class EmployeeResources {
     ];
   }
 
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'personio://employees/{id}',
+        name: 'Employee Profile',
+        description: 'Profile of one employee with position, department, supervisor and contract data',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'personio://employees/{id}/absences',
+        name: 'Employee Absences',
+        description: 'Absences of one employee in the current year',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'personio://employees/{id}/attendance/{month}',
+        name: 'Employee Attendance by Month',
+        description: 'Attendance entries and totals of one employee for a month (YYYY-MM)',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'personio://employees/{id}/balance',
+        name: 'Employee Absence Balance',
+        description: 'Remaining time-off balances of one employee',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  completionSource(uriTemplate: string, argument: string): CompletionSource | undefined {
+    if (!uriTemplate.startsWith('personio://employees/{id}')) return undefined;
+    if (argument === 'id') return 'employee_id';
+    if (argument === 'month') return 'month';
+    return undefined;
+  }
+
   async handleResourceRead(uri: string): Promise<any> {
     switch (uri) {
       case 'personio://employees/directory':
@@ -41,24 +100,28 @@ export class EmployeeResources {
         return this.getEmployeesByDepartment();
       case 'personio://employees/active':
         return this.getActiveEmployees();
-      default:
+      default: {
+        let match: RegExpExecArray | null;
+        if ((match = EMPLOYEE_URI.exec(uri))) {
+          return this.getEmployeeProfile(Number(match[1]));
+        }
+        if ((match = ABSENCES_URI.exec(uri))) {
+          return this.getEmployeeAbsences(Number(match[1]));
+        }
+        if ((match = ATTENDANCE_URI.exec(uri))) {
+          return this.getEmployeeAttendance(Number(match[1]), Number(match[2]), Number(match[3]));
+        }
+        if ((match = BALANCE_URI.exec(uri))) {
+          return this.getEmployeeBalance(Number(match[1]));
+        }
         throw new Error(`Unknown employee resource: ${uri}`);
+      }
     }
   }
 
+  // Served from the shared directory, which the incremental sync keeps current
   private async getEmployeeDirectory(): Promise<any> {
-    const cacheKey = 'resource:employees:directory';
-
-    // Check cache
-    const cached = this.cache.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    // Fetch all employees
-    const employees = await this.rateLimiter.execute(() =>
-      this.client.getEmployees({ limit: 1000 })
-    );
+    const employees = await this.directory.getEmployees();
 
     const directory = employees.map((emp) => ({
       id: emp.attributes.id?.value,
@@ -69,16 +132,11 @@ export class EmployeeResources {
       status: emp.attributes.status?.value
     }));
 
-    const result = {
+    return {
       employees: directory,
       total: directory.length,
       last_updated: new Date().toISOString()
     };
-
-    // Cache for 5 minutes
-    this.cache.set(cacheKey, result, 300);
-
-    return result;
   }
 
   private async getEmployeesByDepartment(): Promise<any> {
@@ -125,4 +183,111 @@ export class EmployeeResources {
       last_updated: directory.last_updated
     };
   }
+
+  private async getEmployeeProfile(id: number): Promise<any> {
+    const cacheKey = CacheManager.getEmployeeProfileKey(id);
+
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const employee: PersonioEmployee = await this.rateLimiter.execute(() => this.client.getEmployee(id));
+    const supervisor = employee.attributes.supervisor?.value?.attributes;
+
+    const result = {
+      id,
+      name: employeeName(employee),
+      email: employee.attributes.email?.value,
+      department: departmentName(employee),
+      position: employee.attributes.position?.value,
+      status: employee.attributes.status?.value,
+      supervisor: supervisorId(employee) !== undefined
+        ? {
+          id: supervisorId(employee),
+          name: `${supervisor.first_name?.value ?? ''} ${supervisor.last_name?.value ?? ''}`.trim()
+        }
+        : null,
+      ...Object.fromEntries(
+        PROFILE_ATTRIBUTES
+          .filter((attribute) => employee.attributes[attribute] !== undefined)
+          .map((attribute) => [attribute, employee.attributes[attribute].value])
+      ),
+      last_updated: new Date().toISOString()
+    };
+
+    this.cache.set(cacheKey, result, 300);
+    return result;
+  }
+
+  private async getEmployeeAbsences(id: number): Promise<any> {
+    const year = new Date().getFullYear();
+    const absences = await this.client.getAllAbsences(
+      { employees: [id], start_date: `${year}-01-01`, end_date: `${year}-12-31` },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+
+    return {
+      employee_id: id,
+      year,
+      absences: absences
+        .map((absence) => ({
+          id: absence.id,
+          type: absence.time_off_type?.name,
+          status: absence.status,
+          start_date: absence.start_date,
+          end_date: absence.end_date,
+          half_day_start: absence.half_day_start,
+          half_day_end: absence.half_day_end,
+          days: absence.days_count
+        }))
+        .sort((a, b) => a.start_date.localeCompare(b.start_date)),
+      total: absences.length,
+      last_updated: new Date().toISOString()
+    };
+  }
+
+  private async getEmployeeAttendance(id: number, year: number, month: number): Promise<any> {
+    const start = `${year}-${String(month).padStart(2, '0')}-01`;
+    const end = lastDayOfMonth(year, month);
+
+    const [attendances, employees] = await Promise.all([
+      this.client.getAllAttendances(
+        { employees: [id], start_date: start, end_date: end },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.time.timeZoneAttribute ? this.directory.getEmployees() : Promise.resolve([])
+    ]);
+    const timeZone = employeeTimeZone(employees.find((employee) => employeeId(employee) === id), this.time);
+
+    return {
+      employee_id: id,
+      month: start.slice(0, 7),
+      summary: summarizeAttendances(attendances, timeZone),
+      entries: attendances
+        .map((attendance) => ({
+          id: attendance.id,
+          date: attendance.date,
+          start_time: attendance.start_time,
+          end_time: attendance.end_time,
+          break_minutes: attendance.break,
+          hours: Math.round((workedMinutes(attendance, timeZone) / 60) * 100) / 100,
+          project: attendance.project?.name
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time)),
+      last_updated: new Date().toISOString()
+    };
+  }
+
+  private async getEmployeeBalance(id: number): Promise<any> {
+    const balances = await this.rateLimiter.execute(() =>
+      this.client.getEmployeeAbsenceBalance(id)
+    );
+
+    return {
+      employee_id: id,
+      balances,
+      last_updated: new Date().toISOString()
+    };
+  }
 }
\ No newline at end of file
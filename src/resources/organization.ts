@@ -1,13 +1,28 @@
-import { Resource } from '@modelcontextprotocol/sdk/types.js';
-import { PersonioClient } from '../api/client.js';
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
 import { CacheManager } from '../utils/cache.js';
-import { RateLimiter } from '../utils/rateLimiter.js';
+import { CompletionSource } from '../utils/completion.js';
+import { EmployeeDirectory } from '../utils/directory.js';
+import { OrgNode, allReports, reportingChain } from '../utils/orgChart.js';
+import { headcountTrends } from '../utils/headcount.js';
+import { eachMonth } from '../utils/dates.js';
+
+const REPORTS_URI = /^personio:\/\/organization\/reports\/(\d+)$/;
+const HEADCOUNT_URI = /^personio:\/\/organization\/headcount\/(\d{4}-(?:0[1-9]|1[0-2]))\/(\d{4}-(?:0[1-9]|1[0-2]))$/;
+
+// Longest window the headcount template accepts
+const MAX_TREND_MONTHS = 120;
+
+export interface OrganizationOptions {
+  name?: string;
+  // Months of history in personio://organization/headcount
+  trendMonths?: number;
+}
 
 export class OrganizationResources {
   constructor(
-    private client: PersonioClient,
+    private directory: EmployeeDirectory,
     private cache: CacheManager,
-    private rateLimiter: RateLimiter
+    private options: OrganizationOptions = {}
   ) {}
 
   getResources(): Resource[] {
@@ -15,7 +30,7 @@ export class OrganizationResources {
       {
         uri: 'personio://organization/structure',
         name: 'Organization Structure',
-        description: 'Hierarchical organization structure with departments and teams',
+        description: 'Departments with their employees, plus the reporting-line tree built from supervisors',
         mimeType: 'application/json'
       },
       {
@@ -33,6 +48,33 @@ export class OrganizationResources {
     ];
   }
 
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'personio://organization/reports/{managerId}',
+        name: 'Reports of a Manager',
+        description: 'Direct and indirect reports of one manager, with their own reporting chain',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'personio://organization/headcount/{from}/{to}',
+        name: 'Headcount Trends',
+        description: 'Monthly headcount, hires, leavers, attrition and tenure between two months (YYYY-MM), company-wide and per department',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  completionSource(uriTemplate: string, argument: string): CompletionSource | undefined {
+    if (uriTemplate === 'personio://organization/reports/{managerId}' && argument === 'managerId') {
+      return 'employee_id';
+    }
+    if (uriTemplate === 'personio://organization/headcount/{from}/{to}') {
+      return argument === 'from' || argument === 'to' ? 'month' : undefined;
+    }
+    return undefined;
+  }
+
   async handleResourceRead(uri: string): Promise<any> {
     switch (uri) {
       case 'personio://organization/structure':
@@ -41,8 +83,17 @@ export class OrganizationResources {
         return this.getDepartmentList();
       case 'personio://organization/headcount':
         return this.getHeadcountStatistics();
-      default:
+      default: {
+        const reports = uri.match(REPORTS_URI);
+        if (reports) {
+          return this.getReports(parseInt(reports[1]));
+        }
+        const headcount = uri.match(HEADCOUNT_URI);
+        if (headcount) {
+          return this.getHeadcountTrends(headcount[1], headcount[2]);
+        }
         throw new Error(`Unknown organization resource: ${uri}`);
+      }
     }
   }
 
@@ -55,14 +106,13 @@ export class OrganizationResources {
       return cached;
     }
 
-    // Fetch all employees to build org structure
-    const employees = await this.rateLimiter.execute(() =>
-      this.client.getEmployees({ limit: 1000 })
-    );
+    const [employees, chart] = await Promise.all([
+      this.directory.getEmployees(),
+      this.directory.getOrgChart()
+    ]);
 
     // Build department hierarchy
     const departments: Map<string, any> = new Map();
-    const positions: Map<string, Set<string>> = new Map();
 
     employees.forEach((emp) => {
       const dept = emp.attributes.department?.value?.attributes?.name || 'No Department';
@@ -102,11 +152,18 @@ export class OrganizationResources {
 
     const result = {
       organization: {
-        name: 'Company', // Would come from API in real implementation
+        name: this.options.name ?? 'Company',
         departments: structure.sort((a, b) => a.name.localeCompare(b.name)),
         total_employees: employees.length,
         total_departments: structure.length
       },
+      // Active employees only; inactive supervisors leave their reports as orphans
+      reporting_lines: {
+        metrics: chart.metrics,
+        cycles: chart.cycles,
+        orphans: chart.orphans,
+        tree: chart.roots
+      },
       last_updated: new Date().toISOString()
     };
 
@@ -116,6 +173,39 @@ export class OrganizationResources {
     return result;
   }
 
+  private async getReports(managerId: number): Promise<any> {
+    const chart = await this.directory.getOrgChart();
+    const manager = chart.nodes.get(managerId);
+    if (!manager) {
+      throw new Error(`Unknown organization resource: personio://organization/reports/${managerId}`);
+    }
+
+    const summary = (node: OrgNode) => ({
+      id: node.id,
+      name: node.name,
+      position: node.position,
+      department: node.department
+    });
+
+    return {
+      manager: {
+        ...summary(manager),
+        span_of_control: manager.span_of_control,
+        total_reports: manager.total_reports
+      },
+      reporting_chain: reportingChain(chart, managerId).map(summary),
+      direct_reports: manager.reports.map((node) => ({
+        ...summary(node),
+        span_of_control: node.span_of_control,
+        total_reports: node.total_reports
+      })),
+      indirect_reports: allReports(manager)
+        .filter((node) => node.supervisor_id !== managerId)
+        .map((node) => ({ ...summary(node), supervisor_id: node.supervisor_id, level: node.depth - manager.depth })),
+      tree: manager.reports
+    };
+  }
+
   private async getDepartmentList(): Promise<any> {
     const orgStructure = await this.getOrganizationStructure();
     
@@ -177,9 +267,43 @@ export class OrganizationResources {
       });
     });
 
+    // The trend window ends with the current month
+    const now = new Date();
+    const window = this.options.trendMonths ?? 12;
+    const start = new Date(Date.UTC(now.getFullYear(), now.getMonth() - (window - 1), 1));
+    const trends = await this.getHeadcountTrends(
+      start.toISOString().slice(0, 7),
+      `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
+    );
+
     return {
       statistics: stats,
+      trends: trends.trends,
       last_updated: orgStructure.last_updated
     };
   }
+
+  private async getHeadcountTrends(from: string, to: string): Promise<any> {
+    const months = eachMonth(from, to).length;
+    if (months === 0 || months > MAX_TREND_MONTHS) {
+      throw new Error(
+        `Headcount window must run forwards and span at most ${MAX_TREND_MONTHS} months: ${from} to ${to}`
+      );
+    }
+
+    const employees = await this.directory.getEmployees();
+    const { company, departments, excluded } = headcountTrends(employees, from, to);
+
+    return {
+      trends: {
+        from,
+        to,
+        company,
+        by_department: departments,
+        // Inactive employees without a termination date cannot be placed in time
+        excluded_employees: excluded
+      },
+      last_updated: new Date().toISOString()
+    };
+  }
 }
\ No newline at end of file
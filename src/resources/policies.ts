@@ -1,13 +1,26 @@
-import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
 import { PersonioClient } from '../api/client.js';
 import { CacheManager } from '../utils/cache.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
+import { HolidayCalendar, getSupportedRegions } from '../utils/holidays.js';
+import { getTimeOffTypes, transformTimeOffType } from '../utils/timeOffTypes.js';
+import { CompletionSource } from '../utils/completion.js';
+
+const HOLIDAYS_TEMPLATE = 'personio://policies/holidays/{year}/{region}';
+const HOLIDAYS_URI = /^personio:\/\/policies\/holidays\/(\d{4})\/([A-Za-z]{2}(?:-[A-Za-z]{2})?)$/;
+
+// Observed company-wide on top of the public holidays
+const COMPANY_HOLIDAYS = [
+  { monthDay: '12-24', name: 'Christmas Eve' },
+  { monthDay: '12-31', name: "New Year's Eve" }
+];
 
 export class PolicyResources {
   constructor(
     private client: PersonioClient,
     private cache: CacheManager,
-    private rateLimiter: RateLimiter
+    private rateLimiter: RateLimiter,
+    private holidayCalendar: HolidayCalendar
   ) {}
 
   getResources(): Resource[] {
@@ -27,12 +40,30 @@ export class PolicyResources {
       {
         uri: 'personio://policies/holidays',
         name: 'Holiday Calendar',
-        description: 'Company holidays and observances',
+        description: 'Company holidays and observances for the current year and default region',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: HOLIDAYS_TEMPLATE,
+        name: 'Holiday Calendar by Year and Region',
+        description: `Public and company holidays for a year and region (ISO 3166 code such as DE or DE-BY). Supported: ${getSupportedRegions().map((region) => region.code).join(', ')}`,
         mimeType: 'application/json'
       }
     ];
   }
 
+  completionSource(uriTemplate: string, argument: string): CompletionSource | undefined {
+    if (uriTemplate !== HOLIDAYS_TEMPLATE) return undefined;
+    if (argument === 'year') return 'year';
+    if (argument === 'region') return 'region';
+    return undefined;
+  }
+
   async handleResourceRead(uri: string): Promise<any> {
     switch (uri) {
       case 'personio://policies/absence-types':
@@ -41,122 +72,38 @@ export class PolicyResources {
         return this.getWorkingHoursPolicy();
       case 'personio://policies/holidays':
         return this.getHolidayCalendar();
-      default:
+      default: {
+        const holidays = HOLIDAYS_URI.exec(uri);
+        if (holidays) {
+          return this.getHolidayCalendar(Number(holidays[1]), holidays[2]);
+        }
         throw new Error(`Unknown policy resource: ${uri}`);
+      }
     }
   }
 
   private async getAbsenceTypes(): Promise<any> {
-    const cacheKey = CacheManager.getPoliciesKey();
+    const types = await getTimeOffTypes(this.client, this.cache, this.rateLimiter);
+    const absenceTypes = types.map((type) => ({
+      ...transformTimeOffType(type),
+      requires_approval: type.attributes.approval_required ?? null,
+      documentation_required: type.attributes.certification_required ?? false,
+      documentation_after_days: type.attributes.certification_submission_timeframe ?? null
+    }));
 
-    // Check cache
-    const cached = this.cache.get(cacheKey);
-    if (cached) {
-      return cached;
-    }
+    // Count per category as configured in the tenant
+    const categories: Record<string, number> = {};
+    absenceTypes.forEach((type) => {
+      const category = type.category || 'uncategorized';
+      categories[category] = (categories[category] || 0) + 1;
+    });
 
-    // In a real implementation, this would come from the API
-    // For now, we'll provide standard absence types
-    const absenceTypes = [
-      {
-        id: 1,
-        name: 'Annual Leave',
-        category: 'paid',
-        entitlement_days: 25,
-        carryover_allowed: true,
-        carryover_limit: 5,
-        requires_approval: true,
-        advance_notice_days: 14,
-        documentation_required: false
-      },
-      {
-        id: 2,
-        name: 'Sick Leave',
-        category: 'paid',
-        entitlement_days: 10,
-        carryover_allowed: false,
-        requires_approval: false,
-        advance_notice_days: 0,
-        documentation_required: true,
-        documentation_after_days: 3
-      },
-      {
-        id: 3,
-        name: 'Personal Day',
-        category: 'paid',
-        entitlement_days: 3,
-        carryover_allowed: false,
-        requires_approval: true,
-        advance_notice_days: 2,
-        documentation_required: false
-      },
-      {
-        id: 4,
-        name: 'Unpaid Leave',
-        category: 'unpaid',
-        entitlement_days: null,
-        carryover_allowed: false,
-        requires_approval: true,
-        advance_notice_days: 30,
-        documentation_required: true
-      },
-      {
-        id: 5,
-        name: 'Parental Leave',
-        category: 'paid',
-        entitlement_days: 90,
-        carryover_allowed: false,
-        requires_approval: true,
-        advance_notice_days: 60,
-        documentation_required: true
-      },
-      {
-        id: 6,
-        name: 'Bereavement Leave',
-        category: 'paid',
-        entitlement_days: 5,
-        carryover_allowed: false,
-        requires_approval: false,
-        advance_notice_days: 0,
-        documentation_required: false
-      },
-      {
-        id: 7,
-        name: 'Public Holiday',
-        category: 'paid',
-        entitlement_days: null,
-        carryover_allowed: false,
-        requires_approval: false,
-        advance_notice_days: 0,
-        documentation_required: false
-      },
-      {
-        id: 8,
-        name: 'Work from Home',
-        category: 'other',
-        entitlement_days: null,
-        carryover_allowed: false,
-        requires_approval: true,
-        advance_notice_days: 1,
-        documentation_required: false
-      }
-    ];
-
-    const result = {
+    return {
       absence_types: absenceTypes,
       total: absenceTypes.length,
-      categories: {
-        paid: absenceTypes.filter(t => t.category === 'paid').length,
-        unpaid: absenceTypes.filter(t => t.category === 'unpaid').length,
-        other: absenceTypes.filter(t => t.category === 'other').length
-      },
+      categories,
       last_updated: new Date().toISOString()
     };
-
-    // Cache for 24 hours
-    this.cache.set(cacheKey, result, 86400);
-
-    return result;
   }
 
   private async getWorkingHoursPolicy(): Promise<any> {
@@ -198,29 +145,24 @@ export class PolicyResources {
     return policy;
   }
 
-  private async getHolidayCalendar(): Promise<any> {
-    const currentYear = new Date().getFullYear();
-    
-    // Standard holidays (would come from API)
+  private async getHolidayCalendar(
+    year: number = new Date().getFullYear(),
+    region: string = this.holidayCalendar.defaultRegion
+  ): Promise<any> {
+    const calendar = await this.holidayCalendar.getHolidays(year, region);
+
     const holidays = [
-      { date: `${currentYear}-01-01`, name: "New Year's Day", type: 'public' },
-      { date: `${currentYear}-01-06`, name: 'Epiphany', type: 'public' },
-      { date: `${currentYear}-04-07`, name: 'Good Friday', type: 'public' },
-      { date: `${currentYear}-04-10`, name: 'Easter Monday', type: 'public' },
-      { date: `${currentYear}-05-01`, name: 'Labour Day', type: 'public' },
-      { date: `${currentYear}-05-18`, name: 'Ascension Day', type: 'public' },
-      { date: `${currentYear}-05-29`, name: 'Whit Monday', type: 'public' },
-      { date: `${currentYear}-10-03`, name: 'German Unity Day', type: 'public' },
-      { date: `${currentYear}-10-31`, name: 'Reformation Day', type: 'regional' },
-      { date: `${currentYear}-11-01`, name: "All Saints' Day", type: 'regional' },
-      { date: `${currentYear}-12-25`, name: 'Christmas Day', type: 'public' },
-      { date: `${currentYear}-12-26`, name: 'Boxing Day', type: 'public' },
-      { date: `${currentYear}-12-24`, name: 'Christmas Eve', type: 'company' },
-      { date: `${currentYear}-12-31`, name: "New Year's Eve", type: 'company' }
+      ...calendar.holidays,
+      ...COMPANY_HOLIDAYS.map((holiday) => ({
+        date: `${year}-${holiday.monthDay}`,
+        name: holiday.name,
+        type: 'company' as const
+      }))
     ];
 
     return {
-      year: currentYear,
+      year,
+      region: calendar.region,
       holidays: holidays.sort((a, b) => a.date.localeCompare(b.date)),
       total_holidays: holidays.length,
       by_type: {
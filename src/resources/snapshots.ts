@@ -0,0 +1,49 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { SnapshotStore, snapshotHeadcount, summarizeSnapshot } from '../utils/snapshots.js';
+
+const SNAPSHOT_URI = /^personio:\/\/snapshots\/([^/]+)$/;
+
+export class SnapshotResources {
+  constructor(private store: SnapshotStore) {}
+
+  getResources(): Resource[] {
+    return [
+      {
+        uri: 'personio://snapshots',
+        name: 'Stored Snapshots',
+        description: 'Locally stored snapshots of employees, absences and attendances',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'personio://snapshots/{snapshot}',
+        name: 'Snapshot Summary',
+        description: 'Record counts and headcount of one snapshot, by snapshot ID or date (YYYY-MM-DD); "latest" for the newest',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  async handleResourceRead(uri: string): Promise<any> {
+    if (uri === 'personio://snapshots') {
+      const snapshots = await this.store.list();
+      return { snapshots, total: snapshots.length };
+    }
+
+    const match = uri.match(SNAPSHOT_URI);
+    if (!match) {
+      throw new Error(`Unknown snapshot resource: ${uri}`);
+    }
+
+    const snapshot = await this.store.resolve(match[1] === 'latest' ? undefined : match[1]);
+    return {
+      ...summarizeSnapshot(snapshot),
+      window: snapshot.window,
+      headcount: snapshotHeadcount(snapshot)
+    };
+  }
+}
\ No newline at end of file
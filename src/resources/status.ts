@@ -0,0 +1,42 @@
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { PersonioClient } from '../api/client.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+
+export class StatusResources {
+  constructor(
+    private client: PersonioClient,
+    private rateLimiter: RateLimiter
+  ) {}
+
+  getResources(): Resource[] {
+    return [
+      {
+        uri: 'personio://status/api',
+        name: 'Personio API Status',
+        description: 'Retries of failed Personio requests by status and the remaining rate-limit budget per endpoint family',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [];
+  }
+
+  async handleResourceRead(uri: string): Promise<any> {
+    switch (uri) {
+      case 'personio://status/api':
+        return {
+          retries: this.client.getRetryStats(),
+          rate_limits: {
+            buckets: this.rateLimiter.getBudgets(),
+            queued: this.rateLimiter.size,
+            running: this.rateLimiter.pending
+          },
+          as_of: new Date().toISOString()
+        };
+      default:
+        throw new Error(`Unknown status resource: ${uri}`);
+    }
+  }
+}
\ No newline at end of file
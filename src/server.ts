@@ -3,52 +3,102 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
-  Tool,
+  CompleteRequestSchema,
   Resource,
-  Prompt
+  ResourceTemplate
 } from '@modelcontextprotocol/sdk/types.js';
 import { PersonioClient } from './api/client.js';
 import { CacheManager } from './utils/cache.js';
-import { RateLimiter } from './utils/rateLimiter.js';
+import { RateLimiter, RateLimitBucketConfig } from './utils/rateLimiter.js';
 import { formatError } from './utils/errors.js';
+import { RetryConfig } from './api/retry.js';
+import { HolidayCalendar } from './utils/holidays.js';
+import { SnapshotOptions, SnapshotService, SnapshotStore } from './utils/snapshots.js';
+import { EmployeeSync, SyncOptions } from './utils/employeeSync.js';
+import { ComplianceOptions } from './utils/compliance.js';
+import { AttendanceTimeOptions } from './utils/attendance.js';
+import { SessionOptions, SessionStore } from './utils/sessions.js';
+import { EmployeeDirectory } from './utils/directory.js';
+import { CompletionProvider, CompletionSource } from './utils/completion.js';
 
 // Import tool handlers
 import { EmployeeTools } from './tools/employees.js';
 import { AbsenceTools } from './tools/absences.js';
 import { AttendanceTools } from './tools/attendance.js';
 import { DocumentTools } from './tools/documents.js';
+import { AvailabilityTools } from './tools/availability.js';
+import { OrganizationTools } from './tools/organization.js';
+import { SnapshotTools } from './tools/snapshots.js';
+import { TimeClockTools } from './tools/timeClock.js';
+import { ToolRegistry } from './tools/registry.js';
 
 // Import resource handlers
 import { EmployeeResources } from './resources/employees.js';
-import { OrganizationResources } from './resources/organization.js';
+import { OrganizationOptions, OrganizationResources } from './resources/organization.js';
 import { PolicyResources } from './resources/policies.js';
+import { SnapshotResources } from './resources/snapshots.js';
+import { AttendanceResources } from './resources/attendance.js';
+import { StatusResources } from './resources/status.js';
+
+// Import prompt handlers
+import { AbsencePrompts } from './prompts/absences.js';
+import { ReviewPrompts } from './prompts/reviews.js';
+import { LifecyclePrompts } from './prompts/lifecycle.js';
+import { TeamPrompts } from './prompts/team.js';
+import { AttendancePrompts } from './prompts/attendance.js';
+import { PolicyPrompts } from './prompts/policies.js';
+import { PromptRegistry } from './prompts/registry.js';
 
 export class PersonioMCPServer {
   private server: Server;
   private client: PersonioClient;
   private cache: CacheManager;
   private rateLimiter: RateLimiter;
+  private holidayCalendar: HolidayCalendar;
+  private directory: EmployeeDirectory;
+  private employeeSync: EmployeeSync;
+  private snapshotService?: SnapshotService;
   
   // Tool handlers
   private employeeTools: EmployeeTools;
   private absenceTools: AbsenceTools;
   private attendanceTools: AttendanceTools;
   private documentTools: DocumentTools;
+  private availabilityTools: AvailabilityTools;
+  private organizationTools: OrganizationTools;
+  private snapshotTools?: SnapshotTools;
+  private timeClockTools?: TimeClockTools;
+  private toolRegistry: ToolRegistry;
   
   // Resource handlers
   private employeeResources: EmployeeResources;
   private organizationResources: OrganizationResources;
   private policyResources: PolicyResources;
+  private snapshotResources?: SnapshotResources;
+  private attendanceResources?: AttendanceResources;
+  private statusResources: StatusResources;
+
+  // Prompt handlers
+  private absencePrompts: AbsencePrompts;
+  private reviewPrompts: ReviewPrompts;
+  private lifecyclePrompts: LifecyclePrompts;
+  private teamPrompts: TeamPrompts;
+  private attendancePrompts: AttendancePrompts;
+  private policyPrompts: PolicyPrompts;
+  private promptRegistry: PromptRegistry;
+  private completions: CompletionProvider;
 
   constructor(config: {
     clientId?: string;
     clientSecret?: string;
     apiKey?: string;
     baseUrl?: string;
+    retry?: RetryConfig;
     cache?: {
       employeesTTL?: number;
       organizationTTL?: number;
@@ -57,7 +107,21 @@ export class PersonioMCPServer {
     rateLimit?: {
       requestsPerMinute?: number;
       burstLimit?: number;
+      buckets?: Record<string, RateLimitBucketConfig>;
+    };
+    holidays?: {
+      region?: string;
     };
+    coverage?: {
+      minimumPresent?: number;
+      minimumRatio?: number;
+    };
+    organization?: OrganizationOptions;
+    snapshots?: SnapshotOptions;
+    sync?: SyncOptions;
+    compliance?: ComplianceOptions;
+    attendance?: AttendanceTimeOptions;
+    sessions?: SessionOptions;
   }) {
     // Initialize MCP server
     this.server = new Server(
@@ -69,29 +133,172 @@ export class PersonioMCPServer {
         capabilities: {
           tools: {},
           resources: {},
-          prompts: {}
+          prompts: {},
+          completions: {}
         }
       }
     );
 
     // Initialize dependencies
-    this.client = new PersonioClient(config);
     this.cache = new CacheManager(config.cache);
     this.rateLimiter = new RateLimiter(
       config.rateLimit?.requestsPerMinute,
-      config.rateLimit?.burstLimit
+      config.rateLimit?.burstLimit,
+      config.rateLimit?.buckets
+    );
+    this.client = new PersonioClient({
+      ...config,
+      onRateLimitHeaders: (path, headers, status) =>
+        this.rateLimiter.updateFromHeaders(RateLimiter.bucketForPath(path), headers, status),
+      schedule: (path, request) => this.rateLimiter.executeForPath(path, request)
+    });
+    this.holidayCalendar = new HolidayCalendar(this.cache, config.holidays?.region);
+    this.directory = new EmployeeDirectory(this.client, this.cache, this.rateLimiter);
+    this.employeeSync = new EmployeeSync(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.directory,
+      config.sync
     );
 
     // Initialize tool handlers
-    this.employeeTools = new EmployeeTools(this.client, this.cache, this.rateLimiter);
-    this.absenceTools = new AbsenceTools(this.client, this.cache, this.rateLimiter);
-    this.attendanceTools = new AttendanceTools(this.client, this.cache, this.rateLimiter);
+    this.employeeTools = new EmployeeTools(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.directory,
+      this.employeeSync
+    );
+    this.absenceTools = new AbsenceTools(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.holidayCalendar
+    );
+    this.attendanceTools = new AttendanceTools(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.directory,
+      this.holidayCalendar,
+      (uri) => this.handleResourceRead(uri),
+      config.compliance,
+      config.attendance
+    );
     this.documentTools = new DocumentTools(this.client, this.cache, this.rateLimiter);
+    this.availabilityTools = new AvailabilityTools(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.directory,
+      this.holidayCalendar,
+      { present: config.coverage?.minimumPresent, ratio: config.coverage?.minimumRatio }
+    );
+    this.organizationTools = new OrganizationTools(this.directory);
+
+    // Historical snapshots are only kept when a directory is configured
+    if (config.snapshots?.directory) {
+      const store = new SnapshotStore(config.snapshots.directory, config.snapshots.retention);
+      this.snapshotService = new SnapshotService(this.client, this.rateLimiter, store, config.snapshots);
+      this.snapshotTools = new SnapshotTools(store, this.snapshotService);
+      this.snapshotResources = new SnapshotResources(store);
+    }
+
+    // Clock sessions need somewhere to survive restarts until clock-out
+    if (config.sessions?.directory) {
+      const store = new SessionStore(config.sessions.directory);
+      this.timeClockTools = new TimeClockTools(
+        this.client,
+        this.rateLimiter,
+        this.directory,
+        store,
+        config.attendance,
+        config.compliance
+      );
+      this.attendanceResources = new AttendanceResources(store);
+    }
+
+    // Register every tool by exact name; duplicates fail at startup
+    this.toolRegistry = new ToolRegistry();
+    this.toolRegistry.register(
+      ...this.employeeTools.getTools(),
+      ...this.absenceTools.getTools(),
+      ...this.attendanceTools.getTools(),
+      ...this.documentTools.getTools(),
+      ...this.availabilityTools.getTools(),
+      ...this.organizationTools.getTools(),
+      ...(this.snapshotTools?.getTools() ?? []),
+      ...(this.timeClockTools?.getTools() ?? [])
+    );
 
     // Initialize resource handlers
-    this.employeeResources = new EmployeeResources(this.client, this.cache, this.rateLimiter);
-    this.organizationResources = new OrganizationResources(this.client, this.cache, this.rateLimiter);
-    this.policyResources = new PolicyResources(this.client, this.cache, this.rateLimiter);
+    this.employeeResources = new EmployeeResources(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.directory,
+      config.attendance
+    );
+    this.organizationResources = new OrganizationResources(
+      this.directory,
+      this.cache,
+      config.organization
+    );
+    this.policyResources = new PolicyResources(
+      this.client,
+      this.cache,
+      this.rateLimiter,
+      this.holidayCalendar
+    );
+    this.statusResources = new StatusResources(this.client, this.rateLimiter);
+
+    // Initialize prompt handlers
+    this.absencePrompts = new AbsencePrompts(this.directory, this.toolRegistry);
+    this.reviewPrompts = new ReviewPrompts(
+      this.client,
+      this.rateLimiter,
+      this.directory,
+      config.attendance
+    );
+    this.lifecyclePrompts = new LifecyclePrompts(this.directory, this.toolRegistry);
+    this.teamPrompts = new TeamPrompts(
+      this.client,
+      this.rateLimiter,
+      this.directory,
+      this.toolRegistry,
+      config.attendance
+    );
+    this.attendancePrompts = new AttendancePrompts(
+      this.client,
+      this.rateLimiter,
+      this.directory,
+      this.holidayCalendar,
+      (uri) => this.handleResourceRead(uri),
+      config.attendance
+    );
+    this.policyPrompts = new PolicyPrompts(
+      this.directory,
+      this.toolRegistry,
+      (uri) => this.handleResourceRead(uri)
+    );
+
+    this.promptRegistry = new PromptRegistry();
+    this.promptRegistry.register(
+      ...this.absencePrompts.getPrompts(),
+      ...this.reviewPrompts.getPrompts(),
+      ...this.lifecyclePrompts.getPrompts(),
+      ...this.teamPrompts.getPrompts(),
+      ...this.attendancePrompts.getPrompts(),
+      ...this.policyPrompts.getPrompts()
+    );
+
+    // Argument suggestions for prompts and resource templates
+    this.completions = new CompletionProvider(
+      this.directory,
+      this.toolRegistry,
+      (uri) => this.handleResourceRead(uri)
+    );
 
     // Set up request handlers
     this.setupHandlers();
@@ -100,14 +307,14 @@ export class PersonioMCPServer {
   private setupHandlers(): void {
     // Tool handlers
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: this.getAllTools()
+      tools: this.toolRegistry.list()
     }));
 
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
-        const result = await this.handleToolCall(name, args);
+        const result = await this.toolRegistry.call(name, args);
         return {
           content: [
             {
@@ -122,7 +329,7 @@ export class PersonioMCPServer {
           content: [
             {
               type: 'text',
-              text: `Error: ${formattedError.message}\nCode: ${formattedError.code}`
+              text: JSON.stringify({ error: formattedError }, null, 2)
             }
           ],
           isError: true
@@ -135,6 +342,10 @@ export class PersonioMCPServer {
       resources: this.getAllResources()
     }));
 
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.getAllResourceTemplates()
+    }));
+
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
@@ -157,56 +368,66 @@ export class PersonioMCPServer {
 
     // Prompt handlers
     this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
-      prompts: this.getAllPrompts()
+      prompts: this.promptRegistry.list()
     }));
 
     this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-      const { name } = request.params;
-      const prompt = this.getAllPrompts().find(p => p.name === name);
-      
-      if (!prompt) {
-        throw new Error(`Prompt not found: ${name}`);
-      }
+      const { name, arguments: args } = request.params;
 
-      return { ...prompt };
+      try {
+        return await this.promptRegistry.get(name, args);
+      } catch (error: any) {
+        const formattedError = formatError(error);
+        throw new Error(`${formattedError.code}: ${formattedError.message}`);
+      }
     });
-  }
 
-  private getAllTools(): Tool[] {
-    return [
-      ...this.employeeTools.getTools(),
-      ...this.absenceTools.getTools(),
-      ...this.attendanceTools.getTools(),
-      ...this.documentTools.getTools()
-    ];
-  }
+    // Completion handler
+    this.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      const source = ref.type === 'ref/prompt'
+        ? this.promptRegistry.completionSource(ref.name as string, argument.name)
+        : this.getTemplateCompletionSource(ref.uri as string, argument.name);
 
-  private async handleToolCall(name: string, args: any): Promise<any> {
-    // Route to appropriate handler
-    if (name.startsWith('employee_') || name === 'list_employees' || name === 'search_employees') {
-      return this.employeeTools.handleToolCall(name, args);
-    }
-    if (name.startsWith('absence_') || name === 'list_absences' || name === 'create_absence_request') {
-      return this.absenceTools.handleToolCall(name, args);
-    }
-    if (name.startsWith('attendance_') || name === 'list_attendances' || name === 'create_attendance') {
-      return this.attendanceTools.handleToolCall(name, args);
-    }
-    if (name.startsWith('document_') || name === 'list_documents' || name === 'upload_document') {
-      return this.documentTools.handleToolCall(name, args);
-    }
-
-    throw new Error(`Unknown tool: ${name}`);
+      try {
+        return { completion: await this.completions.complete(source, argument.value) };
+      } catch (error: any) {
+        const formattedError = formatError(error);
+        throw new Error(`${formattedError.code}: ${formattedError.message}`);
+      }
+    });
   }
 
   private getAllResources(): Resource[] {
     return [
       ...this.employeeResources.getResources(),
       ...this.organizationResources.getResources(),
-      ...this.policyResources.getResources()
+      ...this.policyResources.getResources(),
+      ...(this.snapshotResources?.getResources() ?? []),
+      ...(this.attendanceResources?.getResources() ?? []),
+      ...this.statusResources.getResources()
+    ];
+  }
+
+  private getAllResourceTemplates(): ResourceTemplate[] {
+    return [
+      ...this.employeeResources.getResourceTemplates(),
+      ...this.organizationResources.getResourceTemplates(),
+      ...this.policyResources.getResourceTemplates(),
+      ...(this.snapshotResources?.getResourceTemplates() ?? []),
+      ...(this.attendanceResources?.getResourceTemplates() ?? []),
+      ...this.statusResources.getResourceTemplates()
     ];
   }
 
+  private getTemplateCompletionSource(uriTemplate: string, argument: string): CompletionSource | undefined {
+    return (
+      this.employeeResources.completionSource(uriTemplate, argument) ??
+      this.organizationResources.completionSource(uriTemplate, argument) ??
+      this.policyResources.completionSource(uriTemplate, argument)
+    );
+  }
+
   private async handleResourceRead(uri: string): Promise<any> {
     if (uri.startsWith('personio://employees')) {
       return this.employeeResources.handleResourceRead(uri);
@@ -217,64 +438,30 @@ export class PersonioMCPServer {
     if (uri.startsWith('personio://policies')) {
       return this.policyResources.handleResourceRead(uri);
     }
+    if (uri.startsWith('personio://snapshots') && this.snapshotResources) {
+      return this.snapshotResources.handleResourceRead(uri);
+    }
+    if (uri.startsWith('personio://attendance') && this.attendanceResources) {
+      return this.attendanceResources.handleResourceRead(uri);
+    }
+    if (uri.startsWith('personio://status')) {
+      return this.statusResources.handleResourceRead(uri);
+    }
 
     throw new Error(`Unknown resource: ${uri}`);
   }
 
-  private getAllPrompts(): Prompt[] {
-    return [
-      {
-        name: 'absence_request',
-        description: 'Create a well-formatted absence request',
-        arguments: [
-          {
-            name: 'employee_name',
-            description: 'Name of the employee',
-            required: true
-          },
-          {
-            name: 'start_date',
-            description: 'Start date of absence',
-            required: true
-          },
-          {
-            name: 'end_date',
-            description: 'End date of absence',
-            required: true
-          },
-          {
-            name: 'reason',
-            description: 'Reason for absence',
-            required: false
-          }
-        ]
-      },
-      {
-        name: 'performance_review',
-        description: 'Generate a performance review template',
-        arguments: [
-          {
-            name: 'employee_name',
-            description: 'Name of the employee',
-            required: true
-          },
-          {
-            name: 'review_period',
-            description: 'Period being reviewed',
-            required: true
-          }
-        ]
-      }
-    ];
-  }
-
   async start(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+    this.employeeSync.start();
+    this.snapshotService?.start();
     console.error('Personio MCP server started');
   }
 
   async stop(): Promise<void> {
+    this.employeeSync.stop();
+    this.snapshotService?.stop();
     await this.client.disconnect();
     console.error('Personio MCP server stopped');
   }
@@ -1,31 +1,61 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { PersonioClient } from '../api/client.js';
 import { CacheManager } from '../utils/cache.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
 import { PersonioAbsence } from '../api/types.js';
+import { ToolDefinition, defineTool } from './registry.js';
+import { HolidayCalendar } from '../utils/holidays.js';
+import { calculateWorkingDays, scheduleFromEmployee } from '../utils/workingDays.js';
+import { findAbsenceConflicts } from '../utils/conflicts.js';
+import { PersonioMCPError } from '../utils/errors.js';
+import { getTimeOffTypes, transformTimeOffType } from '../utils/timeOffTypes.js';
 
 const listAbsencesSchema = z.object({
-  start_date: z.string().optional(),
-  end_date: z.string().optional(),
-  employee_ids: z.array(z.number()).optional(),
-  status: z.enum(['approved', 'pending', 'rejected', 'canceled']).optional(),
-  limit: z.number().min(1).max(50).optional().default(50),
-  offset: z.number().min(0).optional().default(0)
+  start_date: z.string().date().optional()
+    .describe('Start date for filtering (YYYY-MM-DD)'),
+  end_date: z.string().date().optional()
+    .describe('End date for filtering (YYYY-MM-DD)'),
+  employee_ids: z.array(z.number().int()).optional()
+    .describe('Filter by specific employee IDs'),
+  status: z.enum(['approved', 'pending', 'rejected', 'canceled']).optional()
+    .describe('Filter by absence status'),
+  limit: z.number().int().min(1).max(50).optional().default(50)
+    .describe('Number of results to return (1-50)'),
+  offset: z.number().int().min(0).optional().default(0)
+    .describe('Number of results to skip')
 });
 
 const createAbsenceSchema = z.object({
-  employee_id: z.number(),
-  time_off_type_id: z.number(),
-  start_date: z.string(),
-  end_date: z.string(),
-  half_day_start: z.boolean().optional().default(false),
-  half_day_end: z.boolean().optional().default(false),
-  comment: z.string().optional()
+  employee_id: z.number().int().describe('ID of the employee'),
+  time_off_type_id: z.number().int()
+    .describe('ID of the time-off type, as returned by get_absence_types'),
+  start_date: z.string().date().describe('Start date of absence (YYYY-MM-DD)'),
+  end_date: z.string().date().describe('End date of absence (YYYY-MM-DD)'),
+  half_day_start: z.boolean().optional().default(false)
+    .describe('Is the start date a half day?'),
+  half_day_end: z.boolean().optional().default(false)
+    .describe('Is the end date a half day?'),
+  comment: z.string().optional().describe('Optional comment for the request'),
+  allow_overlap: z.boolean().optional().default(false)
+    .describe('Create the request even if it overlaps existing approved or pending absences')
+});
+
+const calculateAbsenceDaysSchema = z.object({
+  employee_id: z.number().int().describe('ID of the employee'),
+  start_date: z.string().date().describe('Start date of absence (YYYY-MM-DD)'),
+  end_date: z.string().date().describe('End date of absence (YYYY-MM-DD)'),
+  half_day_start: z.boolean().optional().default(false)
+    .describe('Is the start date a half day?'),
+  half_day_end: z.boolean().optional().default(false)
+    .describe('Is the end date a half day?'),
+  time_off_type_id: z.number().int().optional()
+    .describe('Time-off type to check the remaining balance against'),
+  region: z.string().optional()
+    .describe('Holiday region (e.g. DE-BY); defaults to the server holiday region')
 });
 
 const deleteAbsenceSchema = z.object({
-  absence_id: z.number()
+  absence_id: z.number().int().describe('ID of the absence to delete')
 });
 
 const getAbsenceTypesSchema = z.object({});
@@ -34,130 +64,46 @@ export class AbsenceTools {
   constructor(
     private client: PersonioClient,
     private cache: CacheManager,
-    private rateLimiter: RateLimiter
+    private rateLimiter: RateLimiter,
+    private holidayCalendar: HolidayCalendar
   ) {}
 
-  getTools(): Tool[] {
+  getTools(): ToolDefinition[] {
     return [
-      {
+      defineTool({
         name: 'list_absences',
         description: 'List absences with optional filtering by date, employee, and status',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            start_date: {
-              type: 'string',
-              description: 'Start date for filtering (YYYY-MM-DD)'
-            },
-            end_date: {
-              type: 'string',
-              description: 'End date for filtering (YYYY-MM-DD)'
-            },
-            employee_ids: {
-              type: 'array',
-              items: { type: 'number' },
-              description: 'Filter by specific employee IDs'
-            },
-            status: {
-              type: 'string',
-              enum: ['approved', 'pending', 'rejected', 'canceled'],
-              description: 'Filter by absence status'
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of results to return (1-50)',
-              default: 50
-            },
-            offset: {
-              type: 'number',
-              description: 'Number of results to skip',
-              default: 0
-            }
-          }
-        }
-      },
-      {
+        schema: listAbsencesSchema,
+        handler: (params) => this.listAbsences(params)
+      }),
+      defineTool({
         name: 'create_absence_request',
         description: 'Create a new absence/time-off request',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'ID of the employee'
-            },
-            time_off_type_id: {
-              type: 'number',
-              description: 'ID of the time-off type (vacation, sick leave, etc.)'
-            },
-            start_date: {
-              type: 'string',
-              description: 'Start date of absence (YYYY-MM-DD)'
-            },
-            end_date: {
-              type: 'string',
-              description: 'End date of absence (YYYY-MM-DD)'
-            },
-            half_day_start: {
-              type: 'boolean',
-              description: 'Is the start date a half day?',
-              default: false
-            },
-            half_day_end: {
-              type: 'boolean',
-              description: 'Is the end date a half day?',
-              default: false
-            },
-            comment: {
-              type: 'string',
-              description: 'Optional comment for the request'
-            }
-          },
-          required: ['employee_id', 'time_off_type_id', 'start_date', 'end_date']
-        }
-      },
-      {
+        schema: createAbsenceSchema,
+        handler: (params) => this.createAbsence(params)
+      }),
+      defineTool({
+        name: 'calculate_absence_days',
+        description: 'Calculate how many working days an absence would use, accounting for holidays, the employee work schedule and half days, and compare it with the remaining balance',
+        schema: calculateAbsenceDaysSchema,
+        handler: (params) => this.calculateAbsenceDays(params)
+      }),
+      defineTool({
         name: 'delete_absence',
         description: 'Cancel/delete an absence request',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            absence_id: {
-              type: 'number',
-              description: 'ID of the absence to delete'
-            }
-          },
-          required: ['absence_id']
-        }
-      },
-      {
+        schema: deleteAbsenceSchema,
+        handler: (params) => this.deleteAbsence(params)
+      }),
+      defineTool({
         name: 'get_absence_types',
-        description: 'Get available time-off types (vacation, sick leave, etc.)',
-        inputSchema: {
-          type: 'object',
-          properties: {}
-        }
-      }
+        description: 'Get the time-off types configured in Personio (vacation, sick leave, etc.)',
+        schema: getAbsenceTypesSchema,
+        handler: () => this.getAbsenceTypes()
+      })
     ];
   }
 
-  async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'list_absences':
-        return this.listAbsences(args);
-      case 'create_absence_request':
-        return this.createAbsence(args);
-      case 'delete_absence':
-        return this.deleteAbsence(args);
-      case 'get_absence_types':
-        return this.getAbsenceTypes(args);
-      default:
-        throw new Error(`Unknown absence tool: ${name}`);
-    }
-  }
-
-  private async listAbsences(args: any): Promise<any> {
-    const params = listAbsencesSchema.parse(args);
+  private async listAbsences(params: z.infer<typeof listAbsencesSchema>): Promise<any> {
     const cacheKey = CacheManager.getAbsencesKey(params);
 
     // Check cache
@@ -167,8 +113,8 @@ export class AbsenceTools {
     }
 
     // Fetch from API
-    const absences = await this.rateLimiter.execute(() =>
-      this.client.getAbsences({
+    const page = await this.rateLimiter.execute(() =>
+      this.client.getAbsencesPage({
         start_date: params.start_date,
         end_date: params.end_date,
         employees: params.employee_ids,
@@ -180,10 +126,11 @@ export class AbsenceTools {
 
     // Transform and cache
     const result = {
-      absences: absences.map(this.transformAbsence),
-      total: absences.length,
+      absences: page.data.map(this.transformAbsence),
+      total: page.total_elements ?? null,
       limit: params.limit,
-      offset: params.offset
+      offset: params.offset,
+      next_offset: page.next_offset
     };
 
     // Only cache if not filtering by status (as status changes frequently)
@@ -194,12 +141,38 @@ export class AbsenceTools {
     return result;
   }
 
-  private async createAbsence(args: any): Promise<any> {
-    const params = createAbsenceSchema.parse(args);
+  private async createAbsence(params: z.infer<typeof createAbsenceSchema>): Promise<any> {
+    const { allow_overlap, ...data } = params;
+
+    // Refuse to double-book the employee unless explicitly allowed
+    const existing = await this.client.getAllAbsences(
+      {
+        start_date: data.start_date,
+        end_date: data.end_date,
+        employees: [data.employee_id]
+      },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+    const conflicts = findAbsenceConflicts(data, existing);
+    if (conflicts.length > 0 && !allow_overlap) {
+      throw new PersonioMCPError(
+        `Absence overlaps ${conflicts.length} existing absence(s); set allow_overlap to create it anyway`,
+        'CONFLICT',
+        { conflicts }
+      );
+    }
+
+    // Estimate the cost up front; a failed estimate should not block the request
+    let estimate: any;
+    try {
+      estimate = await this.calculateAbsenceDays(data);
+    } catch (error: any) {
+      estimate = { warnings: [`Could not estimate working days: ${error.message}`] };
+    }
 
     // Create via API
     const absence = await this.rateLimiter.execute(() =>
-      this.client.createAbsence(params)
+      this.client.createAbsence(data)
     );
 
     // Invalidate related caches
@@ -208,13 +181,77 @@ export class AbsenceTools {
     return {
       success: true,
       absence: this.transformAbsence(absence),
+      estimated_working_days: estimate.working_days,
+      warnings: estimate.warnings,
+      conflicts,
       message: 'Absence request created successfully'
     };
   }
 
-  private async deleteAbsence(args: any): Promise<any> {
-    const params = deleteAbsenceSchema.parse(args);
+  private async calculateAbsenceDays(params: z.infer<typeof calculateAbsenceDaysSchema>): Promise<any> {
+    if (params.end_date < params.start_date) {
+      throw new Error('end_date must not be before start_date');
+    }
+
+    const [employee, holidays] = await Promise.all([
+      this.rateLimiter.execute(() => this.client.getEmployee(params.employee_id)),
+      this.holidayCalendar.getHolidaysBetween(params.start_date, params.end_date, params.region)
+    ]);
+    const schedule = scheduleFromEmployee(employee);
+
+    const result = calculateWorkingDays({
+      startDate: params.start_date,
+      endDate: params.end_date,
+      halfDayStart: params.half_day_start,
+      halfDayEnd: params.half_day_end,
+      schedule,
+      holidays
+    });
+
+    const warnings: string[] = [];
+    if (result.working_days === 0) {
+      warnings.push('The requested period contains no working days');
+    }
+
+    let balance: { available: number; remaining_after: number } | null = null;
+    if (params.time_off_type_id !== undefined) {
+      const balances = await this.rateLimiter.execute(() =>
+        this.client.getEmployeeAbsenceBalance(params.employee_id)
+      );
+      const entry = Array.isArray(balances)
+        ? balances.find((candidate: any) => candidate.id === params.time_off_type_id)
+        : undefined;
+
+      if (entry && typeof entry.balance === 'number') {
+        balance = {
+          available: entry.balance,
+          remaining_after: entry.balance - result.working_days
+        };
+        if (balance.remaining_after < 0) {
+          warnings.push(
+            `Request uses ${result.working_days} working days but only ${entry.balance} remain for ${entry.name ?? 'this time-off type'}`
+          );
+        }
+      }
+    }
+
+    return {
+      employee_id: params.employee_id,
+      start_date: params.start_date,
+      end_date: params.end_date,
+      working_days: result.working_days,
+      calendar_days: result.calendar_days,
+      non_working_days: result.non_working_days,
+      holidays: result.holidays,
+      schedule_source: schedule ? 'personio' : 'default',
+      region: params.region ?? this.holidayCalendar.defaultRegion,
+      balance,
+      warnings,
+      days: result.days
+    };
+  }
 
+  private async deleteAbsence(params: z.infer<typeof deleteAbsenceSchema>): Promise<any> {
     // Delete via API
     await this.rateLimiter.execute(() =>
       this.client.deleteAbsence(params.absence_id)
@@ -229,23 +266,13 @@ export class AbsenceTools {
     };
   }
 
-  private async getAbsenceTypes(args: any): Promise<any> {
-    // This would typically come from a separate API endpoint
-    // For now, return common types
-    const types = [
-      { id: 1, name: 'Vacation', category: 'paid' },
-      { id: 2, name: 'Sick Leave', category: 'paid' },
-      { id: 3, name: 'Personal Day', category: 'paid' },
-      { id: 4, name: 'Unpaid Leave', category: 'unpaid' },
-      { id: 5, name: 'Parental Leave', category: 'paid' },
-      { id: 6, name: 'Bereavement', category: 'paid' },
-      { id: 7, name: 'Public Holiday', category: 'paid' },
-      { id: 8, name: 'Work from Home', category: 'other' }
-    ];
+  private async getAbsenceTypes(): Promise<any> {
+    const types = await getTimeOffTypes(this.client, this.cache, this.rateLimiter);
+    const absenceTypes = types.map(transformTimeOffType);
 
     return {
-      absence_types: types,
-      total: types.length
+      absence_types: absenceTypes,
+      total: absenceTypes.length
     };
   }
 
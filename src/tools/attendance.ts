@@ -1,211 +1,230 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
+import { readFile } from 'fs/promises';
 import { PersonioClient } from '../api/client.js';
 import { CacheManager } from '../utils/cache.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
-import { PersonioAttendance } from '../api/types.js';
+import { PersonioAttendance, PersonioEmployee } from '../api/types.js';
+import {
+  AttendanceTimeOptions,
+  employeeTimeZone,
+  formatZoned,
+  isValidTimeZone,
+  shiftInterval
+} from '../utils/attendance.js';
+import { ToolDefinition, defineTool } from './registry.js';
+import { findAttendanceConflicts } from '../utils/conflicts.js';
+import { PersonioMCPError } from '../utils/errors.js';
+import { EmployeeDirectory, employeeId, employeeName } from '../utils/directory.js';
+import { HolidayCalendar } from '../utils/holidays.js';
+import { addDays, eachDay, formatDate, parseDate, parsePeriod } from '../utils/dates.js';
+import {
+  ComplianceOptions,
+  ComplianceViolation,
+  NEW_ENTRY_ID,
+  RULE_SETS,
+  WorkingTimeRules,
+  checkCompliance,
+  resolveComplianceOptions,
+  violationsForEntry
+} from '../utils/compliance.js';
+import { parseCsv } from '../utils/csv.js';
+import { ImportRow, readImportRows } from '../utils/attendanceImport.js';
+import {
+  WorkingHoursPolicy,
+  buildTimesheetDays,
+  expectedSchedule,
+  overtimeRates,
+  summarizeTimesheet,
+  totalTimesheet
+} from '../utils/timesheet.js';
+
+const WORKING_HOURS_URI = 'personio://policies/working-hours';
+
+const MAX_SUMMARY_DAYS = 366;
+
+const MAX_IMPORT_ROWS = 1000;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time in HH:MM format');
 
 const listAttendancesSchema = z.object({
-  start_date: z.string().optional(),
-  end_date: z.string().optional(),
-  employee_ids: z.array(z.number()).optional(),
-  project_ids: z.array(z.number()).optional(),
-  limit: z.number().min(1).max(50).optional().default(50),
-  offset: z.number().min(0).optional().default(0)
+  start_date: z.string().date().optional()
+    .describe('Start date for filtering (YYYY-MM-DD)'),
+  end_date: z.string().date().optional()
+    .describe('End date for filtering (YYYY-MM-DD)'),
+  employee_ids: z.array(z.number().int()).optional()
+    .describe('Filter by specific employee IDs'),
+  project_ids: z.array(z.number().int()).optional()
+    .describe('Filter by specific project IDs'),
+  limit: z.number().int().min(1).max(50).optional().default(50)
+    .describe('Number of results to return (1-50)'),
+  offset: z.number().int().min(0).optional().default(0)
+    .describe('Number of results to skip')
 });
 
 const createAttendanceSchema = z.object({
-  employee_id: z.number(),
-  date: z.string(),
-  start_time: z.string(),
-  end_time: z.string(),
-  break_duration: z.number().optional().default(0),
-  comment: z.string().optional(),
-  project_id: z.number().optional()
+  employee_id: z.number().int().describe('ID of the employee'),
+  date: z.string().date().describe('Date of attendance (YYYY-MM-DD)'),
+  start_time: timeSchema.describe('Start time (HH:MM)'),
+  end_time: timeSchema.describe('End time (HH:MM); a time at or before start_time ends on the next day'),
+  break_duration: z.number().int().min(0).optional().default(0)
+    .describe('Break duration in minutes'),
+  comment: z.string().optional().describe('Optional comment'),
+  project_id: z.number().int().optional().describe('Optional project ID'),
+  allow_overlap: z.boolean().optional().default(false)
+    .describe('Create the entry even if it overlaps another attendance of the employee on that date'),
+  allow_violations: z.boolean().optional().default(false)
+    .describe('Create the entry even if it breaks the working-time rules')
 });
 
 const updateAttendanceSchema = z.object({
-  attendance_id: z.number(),
-  start_time: z.string().optional(),
-  end_time: z.string().optional(),
-  break_duration: z.number().optional(),
-  comment: z.string().optional(),
-  project_id: z.number().optional()
+  attendance_id: z.number().int().describe('ID of the attendance to update'),
+  start_time: timeSchema.optional().describe('New start time (HH:MM)'),
+  end_time: timeSchema.optional()
+    .describe('New end time (HH:MM); a time at or before start_time ends on the next day'),
+  break_duration: z.number().int().min(0).optional()
+    .describe('New break duration in minutes'),
+  comment: z.string().optional().describe('New comment'),
+  project_id: z.number().int().optional().describe('New project ID'),
+  employee_id: z.number().int().optional()
+    .describe('Employee of the entry; together with date enables the working-time check'),
+  date: z.string().date().optional()
+    .describe('Date of the entry (YYYY-MM-DD); together with employee_id enables the working-time check'),
+  allow_violations: z.boolean().optional().default(false)
+    .describe('Update the entry even if it breaks the working-time rules')
 });
 
 const deleteAttendanceSchema = z.object({
-  attendance_id: z.number()
+  attendance_id: z.number().int().describe('ID of the attendance to delete')
 });
 
 const getProjectsSchema = z.object({});
 
+const attendanceSummarySchema = z.object({
+  employee_ids: z.array(z.number().int()).min(1).max(50).describe('Employees to summarize'),
+  period: z.string()
+    .refine((period) => parsePeriod(period) !== null, 'Expected a period such as 2025-03, Q1 2025 or 2025-03-01 to 2025-03-31')
+    .describe('Period to summarize (e.g. 2025-03, Q1 2025, 2025-03-01 to 2025-03-31)'),
+  group_by: z.enum(['week', 'month']).optional().default('month')
+    .describe('Report totals per week (Monday to Sunday) or per month'),
+  include_days: z.boolean().optional().default(false)
+    .describe('Also return expected and worked hours for every day'),
+  region: z.string().optional()
+    .describe('Holiday region (e.g. DE-BY); defaults to the server holiday region')
+});
+
+const ruleSetSchema = z.enum(Object.keys(RULE_SETS) as [string, ...string[]]);
+
+const complianceCheckSchema = z.object({
+  start_date: z.string().date().describe('First day to check (YYYY-MM-DD)'),
+  end_date: z.string().date().describe('Last day to check (YYYY-MM-DD)'),
+  employee_ids: z.array(z.number().int()).optional()
+    .describe('Employees to check; defaults to everyone with attendances in the range'),
+  rule_set: ruleSetSchema.optional()
+    .describe('Rule set to apply (arbzg, or jarbschg for minors); defaults to the server rule set'),
+  max_daily_hours: z.number().positive().max(24).optional()
+    .describe('Override the maximum working hours per day'),
+  min_rest_hours: z.number().min(0).max(24).optional()
+    .describe('Override the minimum rest between working days in hours')
+});
+
+const importAttendancesSchema = z.object({
+  file_path: z.string().optional().describe('Path to the CSV file'),
+  file_content: z.string().base64().optional().describe('Base64 encoded CSV content, instead of file_path'),
+  columns: z.object({
+    employee: z.string().optional().describe('Column with the employee email or ID (default "employee")'),
+    date: z.string().optional().describe('Column with the date, YYYY-MM-DD or DD.MM.YYYY (default "date")'),
+    start_time: z.string().optional().describe('Column with the start time, HH:MM (default "start_time")'),
+    end_time: z.string().optional().describe('Column with the end time, HH:MM (default "end_time")'),
+    break: z.string().optional().describe('Column with the break in minutes or H:MM (default "break")'),
+    project: z.string().optional().describe('Column with the project name or ID (default "project")'),
+    comment: z.string().optional().describe('Column with a comment (default "comment")')
+  }).optional().describe('Header names of the columns, matched case-insensitively'),
+  delimiter: z.enum([',', ';', '\t']).optional()
+    .describe('Field delimiter; detected from the header row by default'),
+  dry_run: z.boolean().optional().default(true)
+    .describe('Only validate and report per row; set to false to create the entries'),
+  allow_overlap: z.boolean().optional().default(false)
+    .describe('Import rows even if they overlap existing attendances or other rows'),
+  allow_violations: z.boolean().optional().default(false)
+    .describe('Import rows even if they break the working-time rules')
+});
+
 export class AttendanceTools {
+  private compliance: Required<ComplianceOptions>;
+
   constructor(
     private client: PersonioClient,
     private cache: CacheManager,
-    private rateLimiter: RateLimiter
-  ) {}
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private holidayCalendar: HolidayCalendar,
+    private readResource: (uri: string) => Promise<any>,
+    compliance: ComplianceOptions = {},
+    private time: AttendanceTimeOptions = {}
+  ) {
+    this.compliance = resolveComplianceOptions(compliance);
+    if (time.timeZone && !isValidTimeZone(time.timeZone)) {
+      throw new PersonioMCPError(`Unknown time zone: ${time.timeZone}`, 'VALIDATION_ERROR');
+    }
+  }
 
-  getTools(): Tool[] {
+  getTools(): ToolDefinition[] {
     return [
-      {
+      defineTool({
         name: 'list_attendances',
         description: 'List attendance records with optional filtering',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            start_date: {
-              type: 'string',
-              description: 'Start date for filtering (YYYY-MM-DD)'
-            },
-            end_date: {
-              type: 'string',
-              description: 'End date for filtering (YYYY-MM-DD)'
-            },
-            employee_ids: {
-              type: 'array',
-              items: { type: 'number' },
-              description: 'Filter by specific employee IDs'
-            },
-            project_ids: {
-              type: 'array',
-              items: { type: 'number' },
-              description: 'Filter by specific project IDs'
-            },
-            limit: {
-              type: 'number',
-              description: 'Number of results to return (1-50)',
-              default: 50
-            },
-            offset: {
-              type: 'number',
-              description: 'Number of results to skip',
-              default: 0
-            }
-          }
-        }
-      },
-      {
+        schema: listAttendancesSchema,
+        handler: (params) => this.listAttendances(params)
+      }),
+      defineTool({
         name: 'create_attendance',
         description: 'Create a new attendance entry (clock in/out)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'ID of the employee'
-            },
-            date: {
-              type: 'string',
-              description: 'Date of attendance (YYYY-MM-DD)'
-            },
-            start_time: {
-              type: 'string',
-              description: 'Start time (HH:MM)'
-            },
-            end_time: {
-              type: 'string',
-              description: 'End time (HH:MM)'
-            },
-            break_duration: {
-              type: 'number',
-              description: 'Break duration in minutes',
-              default: 0
-            },
-            comment: {
-              type: 'string',
-              description: 'Optional comment'
-            },
-            project_id: {
-              type: 'number',
-              description: 'Optional project ID'
-            }
-          },
-          required: ['employee_id', 'date', 'start_time', 'end_time']
-        }
-      },
-      {
+        schema: createAttendanceSchema,
+        handler: (params) => this.createAttendance(params)
+      }),
+      defineTool({
         name: 'update_attendance',
         description: 'Update an existing attendance entry',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            attendance_id: {
-              type: 'number',
-              description: 'ID of the attendance to update'
-            },
-            start_time: {
-              type: 'string',
-              description: 'New start time (HH:MM)'
-            },
-            end_time: {
-              type: 'string',
-              description: 'New end time (HH:MM)'
-            },
-            break_duration: {
-              type: 'number',
-              description: 'New break duration in minutes'
-            },
-            comment: {
-              type: 'string',
-              description: 'New comment'
-            },
-            project_id: {
-              type: 'number',
-              description: 'New project ID'
-            }
-          },
-          required: ['attendance_id']
-        }
-      },
-      {
+        schema: updateAttendanceSchema,
+        handler: (params) => this.updateAttendance(params)
+      }),
+      defineTool({
         name: 'delete_attendance',
         description: 'Delete an attendance entry',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            attendance_id: {
-              type: 'number',
-              description: 'ID of the attendance to delete'
-            }
-          },
-          required: ['attendance_id']
-        }
-      },
-      {
+        schema: deleteAttendanceSchema,
+        handler: (params) => this.deleteAttendance(params)
+      }),
+      defineTool({
         name: 'get_projects',
         description: 'Get available projects for time tracking',
-        inputSchema: {
-          type: 'object',
-          properties: {}
-        }
-      }
+        schema: getProjectsSchema,
+        handler: () => this.getProjects()
+      }),
+      defineTool({
+        name: 'attendance_summary',
+        description: 'Timesheet totals per employee and week or month: worked versus expected hours, overtime and undertime, with the policy overtime multipliers for weekdays, weekends and holidays',
+        schema: attendanceSummarySchema,
+        handler: (params) => this.getAttendanceSummary(params)
+      }),
+      defineTool({
+        name: 'attendance_compliance_check',
+        description: 'Check attendances against working-time rules (German ArbZG by default: breaks after 6 and 9 hours, at most 10 hours a day, 11 hours rest) and list violations per employee and day',
+        schema: complianceCheckSchema,
+        handler: (params) => this.checkCompliance(params)
+      }),
+      defineTool({
+        name: 'import_attendances',
+        description: 'Import attendances from a CSV timesheet (file path or base64): resolves employees by email or ID and projects by name, validates every row in a dry run first, then creates the valid rows and reports failures per row',
+        schema: importAttendancesSchema,
+        handler: (params) => this.importAttendances(params)
+      })
     ];
   }
 
-  async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'list_attendances':
-        return this.listAttendances(args);
-      case 'create_attendance':
-        return this.createAttendance(args);
-      case 'update_attendance':
-        return this.updateAttendance(args);
-      case 'delete_attendance':
-        return this.deleteAttendance(args);
-      case 'get_projects':
-        return this.getProjects(args);
-      default:
-        throw new Error(`Unknown attendance tool: ${name}`);
-    }
-  }
-
-  private async listAttendances(args: any): Promise<any> {
-    const params = listAttendancesSchema.parse(args);
-
+  private async listAttendances(params: z.infer<typeof listAttendancesSchema>): Promise<any> {
     // Fetch from API
-    const attendances = await this.rateLimiter.execute(() =>
-      this.client.getAttendances({
+    const page = await this.rateLimiter.execute(() =>
+      this.client.getAttendancesPage({
         start_date: params.start_date,
         end_date: params.end_date,
         employees: params.employee_ids,
@@ -216,18 +235,55 @@ export class AttendanceTools {
     );
 
     // Transform
+    const timeZoneOf = await this.timeZones();
     const result = {
-      attendances: attendances.map(this.transformAttendance),
-      total: attendances.length,
+      attendances: page.data.map((attendance) =>
+        this.transformAttendance(attendance, timeZoneOf(attendance.employee))
+      ),
+      total: page.total_elements ?? null,
       limit: params.limit,
-      offset: params.offset
+      offset: params.offset,
+      next_offset: page.next_offset
     };
 
     return result;
   }
 
-  private async createAttendance(args: any): Promise<any> {
-    const params = createAttendanceSchema.parse(args);
+  private async createAttendance(params: z.infer<typeof createAttendanceSchema>): Promise<any> {
+    const timeZone = (await this.timeZones())(params.employee_id);
+    this.validateShift(params, params.break_duration, timeZone);
+
+    // Refuse overlapping entries for the same employee unless explicitly allowed; the
+    // neighbouring days hold shifts crossing midnight and the previous rest period
+    const existing = await this.client.getAllAttendances(
+      {
+        ...this.surroundingDays(params.date),
+        employees: [params.employee_id]
+      },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+    const conflicts = findAttendanceConflicts(params, existing, timeZone);
+    if (conflicts.length > 0 && !params.allow_overlap) {
+      throw new PersonioMCPError(
+        `Attendance overlaps ${conflicts.length} existing attendance(s); set allow_overlap to create it anyway`,
+        'CONFLICT',
+        { conflicts }
+      );
+    }
+
+    const violations = this.checkEntry(
+      {
+        id: NEW_ENTRY_ID,
+        employee: params.employee_id,
+        date: params.date,
+        start_time: params.start_time,
+        end_time: params.end_time,
+        break: params.break_duration
+      } as PersonioAttendance,
+      existing,
+      params.allow_violations,
+      timeZone
+    );
 
     // Create via API
     const attendance = await this.rateLimiter.execute(() =>
@@ -244,20 +300,41 @@ export class AttendanceTools {
 
     return {
       success: true,
-      attendance: this.transformAttendance(attendance),
+      attendance: this.transformAttendance(attendance, timeZone),
+      conflicts,
+      ...(violations && { compliance_violations: violations }),
       message: 'Attendance entry created successfully'
     };
   }
 
-  private async updateAttendance(args: any): Promise<any> {
-    const params = updateAttendanceSchema.parse(args);
-
+  private async updateAttendance(params: z.infer<typeof updateAttendanceSchema>): Promise<any> {
     const updateData: any = {};
     if (params.start_time) updateData.start_time = params.start_time;
     if (params.end_time) updateData.end_time = params.end_time;
     if (params.break_duration !== undefined) updateData.break = params.break_duration;
     if (params.comment) updateData.comment = params.comment;
     if (params.project_id) updateData.project_id = params.project_id;
+    const timeZoneOf = await this.timeZones();
+
+    // Personio has no lookup by attendance ID, so the entry can only be checked when the
+    // caller says whose and which day it is
+    let violations: ComplianceViolation[] | undefined;
+    if (this.compliance.writeCheck !== 'off' && params.employee_id !== undefined && params.date) {
+      const existing = await this.client.getAllAttendances(
+        { ...this.surroundingDays(params.date), employees: [params.employee_id] },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      );
+      const current = existing.find((attendance) => attendance.id === params.attendance_id);
+      if (!current) {
+        throw new PersonioMCPError(
+          `Attendance ${params.attendance_id} not found for employee ${params.employee_id} on ${params.date}`,
+          'NOT_FOUND'
+        );
+      }
+      const updated = { ...current, ...updateData };
+      this.validateShift(updated, updated.break, timeZoneOf(params.employee_id));
+      violations = this.checkEntry(updated, existing, params.allow_violations, timeZoneOf(params.employee_id));
+    }
 
     // Update via API
     const attendance = await this.rateLimiter.execute(() =>
@@ -266,14 +343,13 @@ export class AttendanceTools {
 
     return {
       success: true,
-      attendance: this.transformAttendance(attendance),
+      attendance: this.transformAttendance(attendance, timeZoneOf(attendance.employee)),
+      ...(violations && { compliance_violations: violations }),
       message: 'Attendance entry updated successfully'
     };
   }
 
-  private async deleteAttendance(args: any): Promise<any> {
-    const params = deleteAttendanceSchema.parse(args);
-
+  private async deleteAttendance(params: z.infer<typeof deleteAttendanceSchema>): Promise<any> {
     // Delete via API
     await this.rateLimiter.execute(() =>
       this.client.deleteAttendance(params.attendance_id)
@@ -285,7 +361,402 @@ export class AttendanceTools {
     };
   }
 
-  private async getProjects(args: any): Promise<any> {
+  private async getAttendanceSummary(params: z.infer<typeof attendanceSummarySchema>): Promise<any> {
+    const period = parsePeriod(params.period)!;
+    if (eachDay(period.start_date, period.end_date).length > MAX_SUMMARY_DAYS) {
+      throw new PersonioMCPError(`Period must not exceed ${MAX_SUMMARY_DAYS} days`, 'VALIDATION_ERROR');
+    }
+
+    const directory = await this.directory.getEmployees();
+    const employees = params.employee_ids.map((id) => directory.find((employee) => employeeId(employee) === id));
+    const missing = params.employee_ids.filter((_, index) => !employees[index]);
+    if (missing.length > 0) {
+      throw new PersonioMCPError(`Unknown employee ID(s): ${missing.join(', ')}`, 'NOT_FOUND');
+    }
+
+    const [attendances, absences, holidays, policy] = await Promise.all([
+      this.client.getAllAttendances(
+        { ...period, employees: params.employee_ids },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.client.getAllAbsences(
+        { ...period, employees: params.employee_ids },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.holidayCalendar.getHolidaysBetween(period.start_date, period.end_date, params.region),
+      this.readResource(WORKING_HOURS_URI) as Promise<WorkingHoursPolicy>
+    ]);
+    const rates = overtimeRates(policy);
+
+    return {
+      period,
+      group_by: params.group_by,
+      overtime_rates: rates,
+      employees: employees.map((employee) => {
+        const id = employeeId(employee!);
+        const expected = expectedSchedule(employee!, policy);
+        const days = buildTimesheetDays({
+          startDate: period.start_date,
+          endDate: period.end_date,
+          schedule: expected.schedule,
+          attendances: attendances.filter((attendance) => attendance.employee === id),
+          absences: absences.filter((absence) => absence.employee?.id === id),
+          holidays,
+          timeZone: employeeTimeZone(employee, this.time)
+        });
+        const periods = summarizeTimesheet(days, rates, params.group_by);
+
+        return {
+          employee_id: id,
+          name: employeeName(employee!),
+          expected_hours_source: expected.source,
+          periods,
+          totals: totalTimesheet(periods),
+          ...(params.include_days && { days })
+        };
+      })
+    };
+  }
+
+  private async checkCompliance(params: z.infer<typeof complianceCheckSchema>): Promise<any> {
+    if (params.end_date < params.start_date) {
+      throw new PersonioMCPError('end_date must not be before start_date', 'VALIDATION_ERROR');
+    }
+    if (eachDay(params.start_date, params.end_date).length > MAX_SUMMARY_DAYS) {
+      throw new PersonioMCPError(`Range must not exceed ${MAX_SUMMARY_DAYS} days`, 'VALIDATION_ERROR');
+    }
+
+    const ruleSet = params.rule_set ?? this.compliance.ruleSet;
+    const rules: WorkingTimeRules = {
+      ...RULE_SETS[ruleSet],
+      ...(params.max_daily_hours !== undefined && { max_daily_hours: params.max_daily_hours }),
+      ...(params.min_rest_hours !== undefined && { min_rest_hours: params.min_rest_hours })
+    };
+
+    // The day before the range is fetched so that the first day's rest period can be checked
+    const [attendances, employees] = await Promise.all([
+      this.client.getAllAttendances(
+        {
+          start_date: formatDate(addDays(parseDate(params.start_date), -1)),
+          end_date: params.end_date,
+          employees: params.employee_ids
+        },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.directory.getEmployees()
+    ]);
+    // Each employee's entries are measured in their own time zone
+    const violations = Array.from(new Set(attendances.map((attendance) => attendance.employee)))
+      .flatMap((id) => checkCompliance(
+        attendances.filter((attendance) => attendance.employee === id),
+        rules,
+        employeeTimeZone(employees.find((entry) => employeeId(entry) === id), this.time)
+      ))
+      .filter((violation) => violation.date >= params.start_date && violation.date <= params.end_date);
+
+    const byEmployee = new Map<number, Map<string, ComplianceViolation[]>>();
+    for (const violation of violations) {
+      const days = byEmployee.get(violation.employee_id) ?? new Map<string, ComplianceViolation[]>();
+      days.set(violation.date, [...(days.get(violation.date) ?? []), violation]);
+      byEmployee.set(violation.employee_id, days);
+    }
+    const checked = new Set(
+      attendances
+        .filter((attendance) => attendance.date >= params.start_date)
+        .map((attendance) => attendance.employee)
+    );
+
+    return {
+      period: { start_date: params.start_date, end_date: params.end_date },
+      rule_set: ruleSet,
+      rules,
+      employees_checked: checked.size,
+      total_violations: violations.length,
+      employees: Array.from(byEmployee.entries()).map(([id, days]) => {
+        const employee = employees.find((entry) => employeeId(entry) === id);
+        return {
+          employee_id: id,
+          name: employee ? employeeName(employee) : null,
+          total_violations: violations.filter((violation) => violation.employee_id === id).length,
+          days: Array.from(days.entries()).map(([date, entries]) => ({
+            date,
+            violations: entries.map((violation) => ({
+              rule: violation.rule,
+              attendance_ids: violation.attendance_ids,
+              required: violation.required,
+              actual: violation.actual,
+              unit: violation.unit,
+              detail: violation.detail
+            }))
+          }))
+        };
+      })
+    };
+  }
+
+  private async importAttendances(params: z.infer<typeof importAttendancesSchema>): Promise<any> {
+    const content = await this.readImportFile(params);
+    const rows = readImportRows(parseCsv(content.toString('utf8'), params.delimiter), params.columns);
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new PersonioMCPError(
+        `CSV has ${rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`,
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const [employees, projects] = await Promise.all([
+      this.directory.getEmployees(),
+      rows.some((row) => row.project)
+        ? this.rateLimiter.execute(() => this.client.getProjects())
+        : Promise.resolve([])
+    ]);
+    const resolved = rows.map((row) => this.resolveImportRow(row, employees, projects));
+
+    // One request for everything the valid rows could overlap or follow
+    const candidates = resolved.filter((entry) => entry.errors.length === 0);
+    const dates = candidates.map((entry) => entry.row.date).sort();
+    const existing = candidates.length === 0 ? [] : await this.client.getAllAttendances(
+      {
+        start_date: this.surroundingDays(dates[0]).start_date,
+        end_date: this.surroundingDays(dates[dates.length - 1]).end_date,
+        employees: Array.from(new Set(candidates.map((entry) => entry.employee_id!)))
+      },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+
+    // Rows are checked in file order against Personio and the rows accepted before them,
+    // which carry the negated row number as ID
+    const accepted: PersonioAttendance[] = [];
+    const describeId = (id: number) => (id < 0 ? `row ${-id}` : `attendance ${id}`);
+    const results = resolved.map(({ row, employee_id, name, project_id, timeZone, errors }) => {
+      const entry = {
+        id: -row.row,
+        employee: employee_id,
+        date: row.date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        break: row.break_minutes
+      } as PersonioAttendance;
+      let violations: ComplianceViolation[] | undefined;
+
+      // A row that is already in Personio, e.g. from an earlier run of the same file, is
+      // not created again
+      const duplicate = errors.length === 0
+        ? existing.find((attendance) =>
+          attendance.employee === employee_id &&
+          attendance.date === entry.date &&
+          attendance.start_time === entry.start_time &&
+          attendance.end_time === entry.end_time
+        )
+        : undefined;
+
+      if (errors.length === 0 && !duplicate) {
+        const others = [...existing, ...accepted].filter((attendance) => attendance.employee === employee_id);
+        const conflicts = findAttendanceConflicts(entry, others, timeZone);
+        if (conflicts.length > 0 && !params.allow_overlap) {
+          errors.push(`Overlaps ${conflicts.map((conflict) => describeId(conflict.id)).join(', ')}`);
+        }
+        if (this.compliance.writeCheck !== 'off') {
+          violations = violationsForEntry(entry, others, RULE_SETS[this.compliance.ruleSet], timeZone);
+          if (violations.length > 0 && this.compliance.writeCheck === 'block' && !params.allow_violations) {
+            errors.push(...violations.map((violation) => violation.detail));
+          }
+        }
+        if (errors.length === 0) {
+          accepted.push(entry);
+        }
+      }
+
+      return {
+        row: row.row,
+        status: duplicate ? 'duplicate' : errors.length === 0 ? 'valid' : 'invalid',
+        ...(duplicate && { attendance_id: duplicate.id }),
+        ...(employee_id !== undefined && { employee_id, name }),
+        date: row.date,
+        start_time: row.start_time,
+        end_time: row.end_time,
+        break_minutes: row.break_minutes,
+        ...(project_id !== undefined && { project_id }),
+        ...(errors.length > 0 && { errors }),
+        ...(violations?.length && {
+          compliance_violations: violations.map((violation) => ({
+            ...violation,
+            attendance_ids: violation.attendance_ids.filter((id) => id !== entry.id)
+          }))
+        }),
+        comment: row.comment
+      } as Record<string, any>;
+    });
+
+    if (!params.dry_run) {
+      for (const result of results.filter((entry) => entry.status === 'valid')) {
+        try {
+          const attendance = await this.rateLimiter.execute(() =>
+            this.client.createAttendance({
+              employee: result.employee_id,
+              date: result.date,
+              start_time: result.start_time,
+              end_time: result.end_time,
+              break: result.break_minutes,
+              comment: result.comment,
+              project_id: result.project_id
+            })
+          );
+          result.status = 'created';
+          result.attendance_id = attendance.id;
+        } catch (error: any) {
+          result.status = 'failed';
+          result.errors = [error.message];
+        }
+      }
+    }
+
+    const count = (status: string) => results.filter((result) => result.status === status).length;
+    const importable = count('valid') + count('created') + count('failed');
+    return {
+      dry_run: params.dry_run,
+      total_rows: results.length,
+      valid: importable,
+      invalid: count('invalid'),
+      duplicates: count('duplicate'),
+      ...(!params.dry_run && { created: count('created'), failed: count('failed') }),
+      rows: results,
+      message: params.dry_run
+        ? `Dry run: ${importable} of ${results.length} row(s) can be imported; ` +
+          'run again with dry_run false to create them'
+        : `Created ${count('created')} of ${results.length} row(s); ` +
+          `${count('failed')} failed, ${count('invalid')} invalid, ${count('duplicate')} already in Personio`
+    };
+  }
+
+  private async readImportFile(params: z.infer<typeof importAttendancesSchema>): Promise<Buffer> {
+    if (Boolean(params.file_path) === Boolean(params.file_content)) {
+      throw new PersonioMCPError('Provide either file_path or file_content', 'VALIDATION_ERROR');
+    }
+    if (params.file_content) {
+      return Buffer.from(params.file_content, 'base64');
+    }
+    try {
+      return await readFile(params.file_path!);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new PersonioMCPError(`File not found: ${params.file_path}`, 'NOT_FOUND');
+      }
+      throw error;
+    }
+  }
+
+  // Employees by email or ID, projects by name or ID, and the shift itself
+  private resolveImportRow(row: ImportRow, employees: PersonioEmployee[], projects: any[]) {
+    const errors = [...row.errors];
+
+    const employee = /^\d+$/.test(row.employee)
+      ? employees.find((entry) => employeeId(entry) === Number(row.employee))
+      : employees.find(
+        (entry) => String(entry.attributes.email?.value ?? '').toLowerCase() === row.employee.toLowerCase()
+      );
+    if (row.employee && !employee) {
+      errors.push(`Unknown employee "${row.employee}"; expected an email address or employee ID`);
+    }
+
+    const projectId = (project: any) => Number(project.id ?? project.attributes?.id);
+    const project = row.project === undefined
+      ? undefined
+      : projects.find((entry) =>
+        /^\d+$/.test(row.project!)
+          ? projectId(entry) === Number(row.project)
+          : String(entry.attributes?.name ?? entry.name).toLowerCase() === row.project!.toLowerCase()
+      );
+    if (row.project !== undefined && !project) {
+      errors.push(`Unknown project "${row.project}"`);
+    }
+
+    const timeZone = employeeTimeZone(employee, this.time);
+    if (errors.length === 0) {
+      const problem = this.shiftProblem(row, row.break_minutes, timeZone);
+      if (problem) errors.push(problem);
+    }
+
+    return {
+      row,
+      employee_id: employee ? employeeId(employee) : undefined,
+      name: employee ? employeeName(employee) : undefined,
+      project_id: project ? projectId(project) : undefined,
+      timeZone,
+      errors
+    };
+  }
+
+  // Time zone per employee; the directory is only needed when employees can have their own
+  private async timeZones(): Promise<(employeeId: number) => string> {
+    if (!this.time.timeZoneAttribute) {
+      return () => employeeTimeZone(undefined, this.time);
+    }
+    const employees = await this.directory.getEmployees();
+    return (id) => employeeTimeZone(employees.find((employee) => employeeId(employee) === id), this.time);
+  }
+
+  // Shifts ending at or before their start time end on the next day; a shift has to
+  // take some time and last longer than its break
+  private validateShift(
+    shift: { date: string; start_time: string; end_time: string },
+    breakMinutes: number | undefined,
+    timeZone: string
+  ): void {
+    const problem = this.shiftProblem(shift, breakMinutes, timeZone);
+    if (problem) {
+      throw new PersonioMCPError(problem, 'VALIDATION_ERROR');
+    }
+  }
+
+  private shiftProblem(
+    shift: { date: string; start_time: string; end_time: string },
+    breakMinutes: number | undefined,
+    timeZone: string
+  ): string | undefined {
+    if (shift.start_time === shift.end_time) {
+      return 'end_time must differ from start_time; shifts ending on the next day end before they start';
+    }
+    const { start, end } = shiftInterval(shift, timeZone);
+    const minutes = (end.getTime() - start.getTime()) / 60000;
+    if ((breakMinutes ?? 0) >= minutes) {
+      return `Break of ${breakMinutes} minutes does not fit into a ${minutes} minute shift`;
+    }
+    return undefined;
+  }
+
+  private surroundingDays(date: string): { start_date: string; end_date: string } {
+    return {
+      start_date: formatDate(addDays(parseDate(date), -1)),
+      end_date: formatDate(addDays(parseDate(date), 1))
+    };
+  }
+
+  // Returns the violations of the entry to write, or throws in block mode unless allowed
+  private checkEntry(
+    entry: PersonioAttendance,
+    existing: PersonioAttendance[],
+    allowViolations: boolean,
+    timeZone: string
+  ): ComplianceViolation[] | undefined {
+    if (this.compliance.writeCheck === 'off') return undefined;
+
+    const rules = RULE_SETS[this.compliance.ruleSet];
+    const violations = violationsForEntry(entry, existing, rules, timeZone).map((violation) => ({
+      ...violation,
+      attendance_ids: violation.attendance_ids.filter((id) => id !== NEW_ENTRY_ID)
+    }));
+    if (violations.length > 0 && this.compliance.writeCheck === 'block' && !allowViolations) {
+      throw new PersonioMCPError(
+        `Attendance breaks ${violations.length} working-time rule(s); set allow_violations to write it anyway`,
+        'COMPLIANCE_VIOLATION',
+        { violations }
+      );
+    }
+    return violations;
+  }
+
+  private async getProjects(): Promise<any> {
     const projects = await this.rateLimiter.execute(() =>
       this.client.getProjects()
     );
@@ -296,10 +767,14 @@ export class AttendanceTools {
     };
   }
 
-  private transformAttendance(attendance: PersonioAttendance): any {
-    const startTime = new Date(`${attendance.date}T${attendance.start_time}`);
-    const endTime = new Date(`${attendance.date}T${attendance.end_time}`);
-    const durationMinutes = (endTime.getTime() - startTime.getTime()) / (1000 * 60) - attendance.break;
+  // Durations come from the instants the shift started and ended in the employee's
+  // time zone, so overnight shifts and DST changes count the hours actually worked
+  private transformAttendance(attendance: PersonioAttendance, timeZone: string): any {
+    const shift = shiftInterval(attendance, timeZone);
+    const durationMinutes = Math.max(
+      0,
+      (shift.end.getTime() - shift.start.getTime()) / 60000 - (attendance.break ?? 0)
+    );
     const durationHours = durationMinutes / 60;
 
     return {
@@ -309,7 +784,11 @@ export class AttendanceTools {
       times: {
         start: attendance.start_time,
         end: attendance.end_time,
-        break_minutes: attendance.break
+        break_minutes: attendance.break,
+        ends_next_day: shift.ends_next_day,
+        time_zone: timeZone,
+        start_at: formatZoned(shift.start, timeZone),
+        end_at: formatZoned(shift.end, timeZone)
       },
       duration: {
         total_minutes: durationMinutes,
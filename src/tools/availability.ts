@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { PersonioClient } from '../api/client.js';
+import { CacheManager } from '../utils/cache.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { PersonioEmployee } from '../api/types.js';
+import { ToolDefinition, defineTool } from './registry.js';
+import { HolidayCalendar } from '../utils/holidays.js';
+import { EmployeeDirectory, departmentName, employeeId, employeeName, isActive, supervisorId } from '../utils/directory.js';
+import { CoverageMinimum, buildAvailability } from '../utils/availability.js';
+import { scheduleFromEmployee } from '../utils/workingDays.js';
+import { PersonioMCPError } from '../utils/errors.js';
+import { eachDay } from '../utils/dates.js';
+
+const MAX_DAYS = 93;
+
+const teamAvailabilitySchema = z.object({
+  department: z.string().optional().describe('Department name to report on'),
+  manager_id: z.number().int().optional()
+    .describe('Report on the direct reports of this employee'),
+  employee_ids: z.array(z.number().int()).optional()
+    .describe('Report on these employees'),
+  start_date: z.string().date().describe('First day of the report (YYYY-MM-DD)'),
+  end_date: z.string().date().describe('Last day of the report (YYYY-MM-DD)'),
+  include_pending: z.boolean().optional().default(true)
+    .describe('Treat pending absence requests as absences'),
+  minimum_present: z.number().min(0).optional()
+    .describe('Flag days with fewer people available than this; defaults to the server setting'),
+  minimum_coverage: z.number().min(0).max(1).optional()
+    .describe('Flag days where the available share of scheduled people is below this (0-1); defaults to the server setting'),
+  region: z.string().optional()
+    .describe('Holiday region (e.g. DE-BY); defaults to the server holiday region')
+});
+
+export class AvailabilityTools {
+  constructor(
+    private client: PersonioClient,
+    private cache: CacheManager,
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private holidayCalendar: HolidayCalendar,
+    private defaultMinimum: CoverageMinimum = {}
+  ) {}
+
+  getTools(): ToolDefinition[] {
+    return [
+      defineTool({
+        name: 'team_availability',
+        description: 'Day-by-day availability of a department, a manager\'s direct reports or a list of employees, flagging days where coverage falls below the minimum',
+        schema: teamAvailabilitySchema,
+        handler: (params) => this.getTeamAvailability(params)
+      })
+    ];
+  }
+
+  private async getTeamAvailability(params: z.infer<typeof teamAvailabilitySchema>): Promise<any> {
+    if (params.end_date < params.start_date) {
+      throw new Error('end_date must not be before start_date');
+    }
+    if (eachDay(params.start_date, params.end_date).length > MAX_DAYS) {
+      throw new PersonioMCPError(`Date range must not exceed ${MAX_DAYS} days`, 'VALIDATION_ERROR');
+    }
+
+    const members = await this.selectMembers(params);
+    if (members.length === 0) {
+      throw new PersonioMCPError('No employees match the given team', 'NOT_FOUND');
+    }
+
+    const [absences, holidays] = await Promise.all([
+      this.client.getAllAbsences(
+        {
+          start_date: params.start_date,
+          end_date: params.end_date,
+          employees: members.map(employeeId)
+        },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      ),
+      this.holidayCalendar.getHolidaysBetween(params.start_date, params.end_date, params.region)
+    ]);
+
+    const minimum: CoverageMinimum = {
+      present: params.minimum_present ?? this.defaultMinimum.present,
+      ratio: params.minimum_coverage ?? this.defaultMinimum.ratio
+    };
+
+    const matrix = buildAvailability({
+      startDate: params.start_date,
+      endDate: params.end_date,
+      members: members.map((employee) => ({
+        id: employeeId(employee),
+        schedule: scheduleFromEmployee(employee)
+      })),
+      absences: absences.filter((absence) => params.include_pending || absence.status !== 'pending'),
+      holidays,
+      minimum
+    });
+
+    return {
+      team: members.map((employee) => ({
+        id: employeeId(employee),
+        name: employeeName(employee),
+        department: departmentName(employee),
+        position: employee.attributes.position?.value
+      })),
+      start_date: params.start_date,
+      end_date: params.end_date,
+      minimum,
+      understaffed_days: matrix.filter((day) => day.below_minimum).map((day) => day.date),
+      days: matrix
+    };
+  }
+
+  private async selectMembers(params: z.infer<typeof teamAvailabilitySchema>): Promise<PersonioEmployee[]> {
+    if (!params.department && params.manager_id === undefined && !params.employee_ids?.length) {
+      throw new PersonioMCPError(
+        'Provide a department, a manager_id or employee_ids',
+        'VALIDATION_ERROR'
+      );
+    }
+
+    const employees = await this.directory.getEmployees();
+
+    // Explicit IDs are taken as given; team lookups skip people who have left
+    if (params.employee_ids?.length) {
+      const ids = new Set(params.employee_ids);
+      return employees.filter((employee) => ids.has(employeeId(employee)));
+    }
+
+    const department = params.department?.toLowerCase();
+    return employees.filter(
+      (employee) =>
+        isActive(employee) &&
+        (department === undefined || departmentName(employee)?.toLowerCase() === department) &&
+        (params.manager_id === undefined || supervisorId(employee) === params.manager_id)
+    );
+  }
+}
\ No newline at end of file
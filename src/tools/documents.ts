@@ -1,25 +1,25 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { PersonioClient } from '../api/client.js';
 import { CacheManager } from '../utils/cache.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
 import { readFileSync } from 'fs';
 import { basename } from 'path';
+import { ToolDefinition, defineTool } from './registry.js';
 
 const listDocumentCategoriesSchema = z.object({});
 
 const uploadDocumentSchema = z.object({
-  employee_id: z.number(),
-  category_id: z.number(),
-  file_path: z.string(),
-  file_name: z.string().optional()
+  employee_id: z.number().int().describe('ID of the employee'),
+  category_id: z.number().int().describe('ID of the document category'),
+  file_path: z.string().describe('Path to the file to upload'),
+  file_name: z.string().optional().describe('Optional custom file name')
 });
 
 const uploadDocumentBase64Schema = z.object({
-  employee_id: z.number(),
-  category_id: z.number(),
-  file_content: z.string(),
-  file_name: z.string()
+  employee_id: z.number().int().describe('ID of the employee'),
+  category_id: z.number().int().describe('ID of the document category'),
+  file_content: z.string().base64().describe('Base64 encoded file content'),
+  file_name: z.string().describe('File name with extension')
 });
 
 export class DocumentTools {
@@ -29,85 +29,30 @@ export class DocumentTools {
     private rateLimiter: RateLimiter
   ) {}
 
-  getTools(): Tool[] {
+  getTools(): ToolDefinition[] {
     return [
-      {
+      defineTool({
         name: 'list_document_categories',
         description: 'Get available document categories for uploading',
-        inputSchema: {
-          type: 'object',
-          properties: {}
-        }
-      },
-      {
+        schema: listDocumentCategoriesSchema,
+        handler: () => this.listDocumentCategories()
+      }),
+      defineTool({
         name: 'upload_document',
         description: 'Upload a document to an employee profile from file path',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'ID of the employee'
-            },
-            category_id: {
-              type: 'number',
-              description: 'ID of the document category'
-            },
-            file_path: {
-              type: 'string',
-              description: 'Path to the file to upload'
-            },
-            file_name: {
-              type: 'string',
-              description: 'Optional custom file name'
-            }
-          },
-          required: ['employee_id', 'category_id', 'file_path']
-        }
-      },
-      {
+        schema: uploadDocumentSchema,
+        handler: (params) => this.uploadDocument(params)
+      }),
+      defineTool({
         name: 'upload_document_base64',
         description: 'Upload a document to an employee profile from base64 content',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'ID of the employee'
-            },
-            category_id: {
-              type: 'number',
-              description: 'ID of the document category'
-            },
-            file_content: {
-              type: 'string',
-              description: 'Base64 encoded file content'
-            },
-            file_name: {
-              type: 'string',
-              description: 'File name with extension'
-            }
-          },
-          required: ['employee_id', 'category_id', 'file_content', 'file_name']
-        }
-      }
+        schema: uploadDocumentBase64Schema,
+        handler: (params) => this.uploadDocumentBase64(params)
+      })
     ];
   }
 
-  async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'list_document_categories':
-        return this.listDocumentCategories(args);
-      case 'upload_document':
-        return this.uploadDocument(args);
-      case 'upload_document_base64':
-        return this.uploadDocumentBase64(args);
-      default:
-        throw new Error(`Unknown document tool: ${name}`);
-    }
-  }
-
-  private async listDocumentCategories(args: any): Promise<any> {
+  private async listDocumentCategories(): Promise<any> {
     const cacheKey = 'document:categories';
 
     // Check cache
@@ -136,15 +81,13 @@ export class DocumentTools {
     return result;
   }
 
-  private async uploadDocument(args: any): Promise<any> {
-    const params = uploadDocumentSchema.parse(args);
-
+  private async uploadDocument(params: z.infer<typeof uploadDocumentSchema>): Promise<any> {
     try {
       // Read file
       const fileBuffer = readFileSync(params.file_path);
       const fileName = params.file_name || basename(params.file_path);
 
-      // Upload via API with rate limiting (60 req/min for documents)
+      // Upload via API; the client routes it through the documents bucket
       const document = await this.rateLimiter.execute(() =>
         this.client.uploadDocument(
           params.employee_id,
@@ -174,9 +117,7 @@ export class DocumentTools {
     }
   }
 
-  private async uploadDocumentBase64(args: any): Promise<any> {
-    const params = uploadDocumentBase64Schema.parse(args);
-
+  private async uploadDocumentBase64(params: z.infer<typeof uploadDocumentBase64Schema>): Promise<any> {
     // Convert base64 to buffer
     const fileBuffer = Buffer.from(params.file_content, 'base64');
 
@@ -187,7 +128,8 @@ export class DocumentTools {
         params.category_id,
         fileBuffer,
         params.file_name
-      )
+      ),
+      'documents'
     );
 
     return {
@@ -1,172 +1,111 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { PersonioClient } from '../api/client.js';
 import { CacheManager } from '../utils/cache.js';
 import { RateLimiter } from '../utils/rateLimiter.js';
 import { PersonioEmployee } from '../api/types.js';
+import { ToolDefinition, defineTool } from './registry.js';
+import { EmployeeDirectory } from '../utils/directory.js';
+import { EmployeeSync } from '../utils/employeeSync.js';
 
 const listEmployeesSchema = z.object({
-  limit: z.number().min(1).max(50).optional().default(50),
-  offset: z.number().min(0).optional().default(0),
-  attributes: z.array(z.string()).optional(),
-  updated_since: z.string().optional()
+  limit: z.number().int().min(1).max(50).optional().default(50)
+    .describe('Number of employees to return (1-50)'),
+  offset: z.number().int().min(0).optional().default(0)
+    .describe('Number of employees to skip'),
+  attributes: z.array(z.string()).optional()
+    .describe('Specific attributes to include'),
+  updated_since: z.union([z.string().date(), z.string().datetime({ offset: true })]).optional()
+    .describe('Return only employees updated after this date or date-time (ISO 8601)')
 });
 
 const getEmployeeSchema = z.object({
-  employee_id: z.number(),
+  employee_id: z.number().int().describe('The ID of the employee'),
   attributes: z.array(z.string()).optional()
+    .describe('Specific attributes to include')
 });
 
 const searchEmployeesSchema = z.object({
-  query: z.string().min(1),
-  attributes: z.array(z.string()).optional(),
-  limit: z.number().min(1).max(50).optional().default(20)
+  query: z.string().min(1)
+    .describe('Search query: name, initials, email or department; tolerates typos and umlaut spellings'),
+  department: z.string().optional().describe('Only employees in this department'),
+  position: z.string().optional().describe('Only employees whose position contains this text'),
+  status: z.string().optional().describe('Only employees with this status (e.g. active, inactive)'),
+  attributes: z.array(z.string()).optional()
+    .describe('Specific attributes to include'),
+  limit: z.number().int().min(1).max(50).optional().default(20)
+    .describe('Maximum number of results')
 });
 
 const getEmployeeAbsenceBalanceSchema = z.object({
-  employee_id: z.number()
+  employee_id: z.number().int().describe('The ID of the employee')
 });
 
 const updateEmployeeSchema = z.object({
-  employee_id: z.number(),
-  data: z.record(z.any())
+  employee_id: z.number().int().describe('The ID of the employee to update'),
+  data: z.record(z.any()).describe('Employee attributes to update')
+});
+
+const getEmployeeChangesSchema = z.object({
+  since: z.string().datetime({ offset: true }).optional()
+    .describe('Only changes detected at or after this time (ISO 8601)'),
+  employee_id: z.number().int().optional().describe('Only changes of this employee'),
+  attributes: z.array(z.string()).optional()
+    .describe('Only these attributes, e.g. position, department, status, supervisor_id'),
+  refresh: z.boolean().optional().default(true)
+    .describe('Fetch employees updated in Personio since the last sync before answering')
 });
 
 export class EmployeeTools {
   constructor(
     private client: PersonioClient,
     private cache: CacheManager,
-    private rateLimiter: RateLimiter
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private sync: EmployeeSync
   ) {}
 
-  getTools(): Tool[] {
+  getTools(): ToolDefinition[] {
     return [
-      {
+      defineTool({
         name: 'list_employees',
         description: 'List all employees with optional filtering and pagination',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            limit: {
-              type: 'number',
-              description: 'Number of employees to return (1-50)',
-              default: 50
-            },
-            offset: {
-              type: 'number',
-              description: 'Number of employees to skip',
-              default: 0
-            },
-            attributes: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Specific attributes to include'
-            },
-            updated_since: {
-              type: 'string',
-              description: 'Return only employees updated after this date (ISO 8601)'
-            }
-          }
-        }
-      },
-      {
+        schema: listEmployeesSchema,
+        handler: (params) => this.listEmployees(params)
+      }),
+      defineTool({
         name: 'get_employee',
         description: 'Get detailed information about a specific employee',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'The ID of the employee'
-            },
-            attributes: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Specific attributes to include'
-            }
-          },
-          required: ['employee_id']
-        }
-      },
-      {
+        schema: getEmployeeSchema,
+        handler: (params) => this.getEmployee(params)
+      }),
+      defineTool({
         name: 'search_employees',
         description: 'Search for employees by name, email, or department',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'Search query (name, email, or department)'
-            },
-            attributes: {
-              type: 'array',
-              items: { type: 'string' },
-              description: 'Specific attributes to include'
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results',
-              default: 20
-            }
-          },
-          required: ['query']
-        }
-      },
-      {
+        schema: searchEmployeesSchema,
+        handler: (params) => this.searchEmployees(params)
+      }),
+      defineTool({
         name: 'get_employee_absence_balance',
         description: 'Get the absence balance for a specific employee',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'The ID of the employee'
-            }
-          },
-          required: ['employee_id']
-        }
-      },
-      {
+        schema: getEmployeeAbsenceBalanceSchema,
+        handler: (params) => this.getEmployeeAbsenceBalance(params)
+      }),
+      defineTool({
         name: 'update_employee',
         description: 'Update employee information (requires appropriate permissions)',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            employee_id: {
-              type: 'number',
-              description: 'The ID of the employee to update'
-            },
-            data: {
-              type: 'object',
-              description: 'Employee attributes to update',
-              additionalProperties: true
-            }
-          },
-          required: ['employee_id', 'data']
-        }
-      }
+        schema: updateEmployeeSchema,
+        handler: (params) => this.updateEmployee(params)
+      }),
+      defineTool({
+        name: 'get_employee_changes',
+        description: 'Attribute-level changes (position, department, status, ...) of employees detected by the incremental sync, and employees removed from Personio as found by its periodic full reload',
+        schema: getEmployeeChangesSchema,
+        handler: (params) => this.getEmployeeChanges(params)
+      })
     ];
   }
 
-  async handleToolCall(name: string, args: any): Promise<any> {
-    switch (name) {
-      case 'list_employees':
-        return this.listEmployees(args);
-      case 'get_employee':
-        return this.getEmployee(args);
-      case 'search_employees':
-        return this.searchEmployees(args);
-      case 'get_employee_absence_balance':
-        return this.getEmployeeAbsenceBalance(args);
-      case 'update_employee':
-        return this.updateEmployee(args);
-      default:
-        throw new Error(`Unknown employee tool: ${name}`);
-    }
-  }
-
-  private async listEmployees(args: any): Promise<any> {
-    const params = listEmployeesSchema.parse(args);
+  private async listEmployees(params: z.infer<typeof listEmployeesSchema>): Promise<any> {
     const cacheKey = CacheManager.getEmployeesKey(params);
 
     // Check cache
@@ -176,24 +115,24 @@ export class EmployeeTools {
     }
 
     // Fetch from API with rate limiting
-    const employees = await this.rateLimiter.execute(() =>
-      this.client.getEmployees(params)
+    const page = await this.rateLimiter.execute(() =>
+      this.client.getEmployeesPage(params)
     );
 
     // Transform and cache the result
     const result = {
-      employees: employees.map(this.transformEmployee),
-      total: employees.length,
+      employees: page.data.map(this.transformEmployee),
+      total: page.total_elements ?? null,
       limit: params.limit,
-      offset: params.offset
+      offset: params.offset,
+      next_offset: page.next_offset
     };
 
     this.cache.set(cacheKey, result);
     return result;
   }
 
-  private async getEmployee(args: any): Promise<any> {
-    const params = getEmployeeSchema.parse(args);
+  private async getEmployee(params: z.infer<typeof getEmployeeSchema>): Promise<any> {
     const cacheKey = CacheManager.getEmployeeKey(params.employee_id);
 
     // Check cache
@@ -212,50 +151,32 @@ export class EmployeeTools {
     return result;
   }
 
-  private async searchEmployees(args: any): Promise<any> {
-    const params = searchEmployeesSchema.parse(args);
-    
-    // Get all employees (from cache if available)
-    const allEmployees = await this.listEmployees({ 
-      limit: 1000, 
-      attributes: params.attributes 
-    });
-
-    // Search locally
-    const query = params.query.toLowerCase();
-    const results = allEmployees.employees.filter((emp: any) => {
-      const firstName = emp.first_name?.toLowerCase() || '';
-      const lastName = emp.last_name?.toLowerCase() || '';
-      const email = emp.email?.toLowerCase() || '';
-      const department = emp.department?.name?.toLowerCase() || '';
-      
-      return (
-        firstName.includes(query) ||
-        lastName.includes(query) ||
-        email.includes(query) ||
-        department.includes(query) ||
-        `${firstName} ${lastName}`.includes(query)
-      );
-    });
+  private async searchEmployees(params: z.infer<typeof searchEmployeesSchema>): Promise<any> {
+    const index = await this.directory.getSearchIndex();
+    const { results, total } = index.search(
+      params.query,
+      { department: params.department, position: params.position, status: params.status },
+      params.limit
+    );
 
     return {
-      employees: results.slice(0, params.limit),
-      total: results.length,
+      employees: results.map((result) => ({
+        ...this.pickAttributes(this.transformEmployee(result.employee), params.attributes),
+        score: result.score,
+        matched_fields: result.matched_fields
+      })),
+      total,
       query: params.query
     };
   }
 
-  private async getEmployeeAbsenceBalance(args: any): Promise<any> {
-    const params = getEmployeeAbsenceBalanceSchema.parse(args);
-    
+  private async getEmployeeAbsenceBalance(params: z.infer<typeof getEmployeeAbsenceBalanceSchema>): Promise<any> {
     return this.rateLimiter.execute(() =>
       this.client.getEmployeeAbsenceBalance(params.employee_id)
     );
   }
 
-  private async updateEmployee(args: any): Promise<any> {
-    const params = updateEmployeeSchema.parse(args);
-    
+  private async updateEmployee(params: z.infer<typeof updateEmployeeSchema>): Promise<any> {
     // Update via API
     const updated = await this.rateLimiter.execute(() =>
       this.client.updateEmployee(params.employee_id, params.data)
@@ -264,10 +185,41 @@ export class EmployeeTools {
     // Invalidate cache
     this.cache.delete(CacheManager.getEmployeeKey(params.employee_id));
     this.cache.delete(CacheManager.getEmployeesKey());
+    this.directory.invalidate();
 
     return this.transformEmployee(updated);
   }
 
+  private async getEmployeeChanges(params: z.infer<typeof getEmployeeChangesSchema>): Promise<any> {
+    if (params.refresh) {
+      await this.sync.sync();
+    }
+
+    const changes = this.sync.getChanges(params);
+    const status = this.sync.status;
+    return {
+      changes,
+      total: changes.length,
+      ...status,
+      // Changes are only known from the moment tracking started
+      ...(params.since && status.tracking_since &&
+        new Date(params.since).getTime() < new Date(status.tracking_since).getTime() && {
+        note: `Changes before ${status.tracking_since} were not tracked`
+      })
+    };
+  }
+
+  // Core fields are always returned; custom attributes only when requested
+  private pickAttributes(employee: any, attributes?: string[]): any {
+    if (!attributes) {
+      return employee;
+    }
+    const core = ['id', 'first_name', 'last_name', 'email', 'department', 'department_id', 'position', 'status'];
+    return Object.fromEntries(
+      Object.entries(employee).filter(([key]) => core.includes(key) || attributes.includes(key))
+    );
+  }
+
   private transformEmployee(employee: PersonioEmployee): any {
     const attrs = employee.attributes;
     return {
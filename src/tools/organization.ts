@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { ToolDefinition, defineTool } from './registry.js';
+import { EmployeeDirectory, employeeId } from '../utils/directory.js';
+import { OrgChart, OrgNode, allReports, reportingChain } from '../utils/orgChart.js';
+import { PersonioMCPError } from '../utils/errors.js';
+
+const listDirectReportsSchema = z.object({
+  manager_id: z.number().int().optional().describe('ID of the manager'),
+  manager_name: z.string().optional().describe('Name of the manager, used when no ID is given'),
+  include_indirect: z.boolean().optional().default(false)
+    .describe('Also list everyone further down the reporting line')
+});
+
+const getReportingChainSchema = z.object({
+  employee_id: z.number().int().describe('ID of the employee')
+});
+
+function summarize(node: OrgNode) {
+  return {
+    id: node.id,
+    name: node.name,
+    position: node.position,
+    department: node.department,
+    span_of_control: node.span_of_control,
+    total_reports: node.total_reports
+  };
+}
+
+export class OrganizationTools {
+  constructor(private directory: EmployeeDirectory) {}
+
+  getTools(): ToolDefinition[] {
+    return [
+      defineTool({
+        name: 'list_direct_reports',
+        description: 'List the employees reporting to a manager, optionally including indirect reports',
+        schema: listDirectReportsSchema,
+        handler: (params) => this.listDirectReports(params)
+      }),
+      defineTool({
+        name: 'get_reporting_chain',
+        description: 'Get the chain of managers from an employee up to the top of the organization',
+        schema: getReportingChainSchema,
+        handler: (params) => this.getReportingChain(params)
+      })
+    ];
+  }
+
+  private async listDirectReports(params: z.infer<typeof listDirectReportsSchema>): Promise<any> {
+    const chart = await this.directory.getOrgChart();
+    const manager = await this.resolveManager(chart, params);
+
+    const indirect = params.include_indirect
+      ? allReports(manager)
+        .filter((node) => node.supervisor_id !== manager.id)
+        .map((node) => ({ ...summarize(node), supervisor_id: node.supervisor_id }))
+      : undefined;
+
+    return {
+      manager: summarize(manager),
+      direct_reports: manager.reports.map(summarize),
+      ...(indirect && { indirect_reports: indirect }),
+      total: params.include_indirect ? manager.total_reports : manager.span_of_control
+    };
+  }
+
+  private async getReportingChain(params: z.infer<typeof getReportingChainSchema>): Promise<any> {
+    const chart = await this.directory.getOrgChart();
+    const employee = chart.nodes.get(params.employee_id);
+    if (!employee) {
+      throw new PersonioMCPError(`No active employee with ID ${params.employee_id}`, 'NOT_FOUND');
+    }
+
+    const chain = reportingChain(chart, employee.id);
+    return {
+      employee: summarize(employee),
+      chain: chain.map(summarize),
+      levels: chain.length,
+      // The chain stops early when a supervisor is missing or the line loops back
+      in_cycle: chart.cycles.some((cycle) => cycle.includes(employee.id)),
+      orphaned: chart.orphans.some((orphan) => orphan.id === employee.id)
+    };
+  }
+
+  private async resolveManager(
+    chart: OrgChart,
+    params: z.infer<typeof listDirectReportsSchema>
+  ): Promise<OrgNode> {
+    if (params.manager_id === undefined && !params.manager_name) {
+      throw new PersonioMCPError('Provide a manager_id or a manager_name', 'VALIDATION_ERROR');
+    }
+
+    const id = params.manager_id
+      ?? employeeId((await this.directory.resolveByName(params.manager_name!)).employee);
+    const manager = chart.nodes.get(id);
+    if (!manager) {
+      throw new PersonioMCPError(`No active employee with ID ${id}`, 'NOT_FOUND');
+    }
+    return manager;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { PersonioMCPError, validationErrorFromZod } from '../utils/errors.js';
+
+export interface ToolDefinition<S extends z.ZodTypeAny = any> {
+  name: string;
+  description: string;
+  schema: S;
+  handler: (params: z.infer<S>) => Promise<any>;
+}
+
+// Derive the advertised JSON Schema from the zod schema the handler is validated against
+function toInputSchema(schema: z.ZodTypeAny): Tool['inputSchema'] {
+  const jsonSchema: Record<string, any> = zodToJsonSchema(schema as any, {
+    $refStrategy: 'none',
+    removeAdditionalStrategy: 'strict'
+  });
+  delete jsonSchema.$schema;
+
+  return { ...jsonSchema, type: 'object' };
+}
+
+// Helper so handlers get their params typed from the schema
+export function defineTool<S extends z.ZodTypeAny>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  register(...definitions: ToolDefinition[]): void {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new PersonioMCPError(
+          `Tool registered more than once: ${definition.name}`,
+          'DUPLICATE_TOOL'
+        );
+      }
+      this.tools.set(definition.name, definition);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: toInputSchema(definition.schema)
+    }));
+  }
+
+  async call(name: string, args: any): Promise<any> {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      throw new PersonioMCPError(`Unknown tool: ${name}`, 'UNKNOWN_TOOL');
+    }
+
+    const parsed = definition.schema.safeParse(args ?? {});
+    if (!parsed.success) {
+      throw validationErrorFromZod(parsed.error, name);
+    }
+
+    return definition.handler(parsed.data);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { ToolDefinition, defineTool } from './registry.js';
+import {
+  SNAPSHOT_ID,
+  SnapshotService,
+  SnapshotStore,
+  diffSnapshots,
+  snapshotHeadcount
+} from '../utils/snapshots.js';
+
+const takeSnapshotSchema = z.object({});
+
+const listSnapshotsSchema = z.object({});
+
+// A snapshot ID, or a date or date-time resolved to the last snapshot taken by then
+const snapshotReference = z.union(
+  [z.string().date(), z.string().datetime({ offset: true }), z.string().regex(SNAPSHOT_ID)],
+  { errorMap: () => ({ message: 'Expected a date (YYYY-MM-DD), an ISO date-time or a snapshot ID' }) }
+);
+
+const headcountAtSchema = z.object({
+  date: snapshotReference
+    .describe('Date (YYYY-MM-DD), ISO date-time or snapshot ID; the last snapshot taken by then is used'),
+  department: z.string().optional().describe('Only count this department')
+});
+
+const compareSnapshotsSchema = z.object({
+  from: snapshotReference.describe('Snapshot ID, date or ISO date-time of the earlier state'),
+  to: snapshotReference.optional()
+    .describe('Snapshot ID, date or ISO date-time of the later state; defaults to the latest snapshot')
+});
+
+// Everything except take_snapshot reads only the local store and works offline
+export class SnapshotTools {
+  constructor(
+    private store: SnapshotStore,
+    private service: SnapshotService
+  ) {}
+
+  getTools(): ToolDefinition[] {
+    return [
+      defineTool({
+        name: 'take_snapshot',
+        description: 'Store a snapshot of employees, absences and attendances from Personio for later historical queries',
+        schema: takeSnapshotSchema,
+        handler: () => this.service.capture()
+      }),
+      defineTool({
+        name: 'list_snapshots',
+        description: 'List the locally stored snapshots with their record counts',
+        schema: listSnapshotsSchema,
+        handler: () => this.listSnapshots()
+      }),
+      defineTool({
+        name: 'headcount_at',
+        description: 'Headcount by department and status at a point in time, from the stored snapshots',
+        schema: headcountAtSchema,
+        handler: (params) => this.headcountAt(params)
+      }),
+      defineTool({
+        name: 'compare_snapshots',
+        description: 'Employees added, removed or changed and absences added, removed or re-decided between two snapshots',
+        schema: compareSnapshotsSchema,
+        handler: (params) => this.compareSnapshots(params)
+      })
+    ];
+  }
+
+  private async listSnapshots(): Promise<any> {
+    const snapshots = await this.store.list();
+    return { snapshots, total: snapshots.length };
+  }
+
+  private async headcountAt(params: z.infer<typeof headcountAtSchema>): Promise<any> {
+    const snapshot = await this.store.resolve(params.date);
+    return snapshotHeadcount(snapshot, params.department);
+  }
+
+  private async compareSnapshots(params: z.infer<typeof compareSnapshotsSchema>): Promise<any> {
+    const [from, to] = await Promise.all([this.store.resolve(params.from), this.store.resolve(params.to)]);
+    return diffSnapshots(from, to);
+  }
+}
\ No newline at end of file
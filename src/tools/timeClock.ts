@@ -0,0 +1,398 @@
+import { z } from 'zod';
+import { PersonioClient } from '../api/client.js';
+import { RateLimiter } from '../utils/rateLimiter.js';
+import { PersonioAttendance } from '../api/types.js';
+import { ToolDefinition, defineTool } from './registry.js';
+import { PersonioMCPError } from '../utils/errors.js';
+import { findAttendanceConflicts } from '../utils/conflicts.js';
+import {
+  ComplianceOptions,
+  ComplianceViolation,
+  NEW_ENTRY_ID,
+  RULE_SETS,
+  resolveComplianceOptions,
+  violationsForEntry
+} from '../utils/compliance.js';
+import { EmployeeDirectory, employeeId, employeeName } from '../utils/directory.js';
+import { addDays, formatDate, parseDate } from '../utils/dates.js';
+import {
+  AttendanceTimeOptions,
+  employeeTimeZone,
+  shiftInterval,
+  timeToMinutes,
+  wallClock,
+  zonedInstant
+} from '../utils/attendance.js';
+import {
+  ClockSession,
+  SessionStore,
+  describeSession,
+  openBreak,
+  sessionBreakMinutes
+} from '../utils/sessions.js';
+
+// Longest session clock_out turns into an attendance; anything longer was most likely forgotten
+const MAX_SESSION_HOURS = 24;
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time in HH:MM format')
+  .optional()
+  .describe('Time on the employee\'s clock (HH:MM) if not now; the latest such time that has passed is used');
+
+const clockInSchema = z.object({
+  employee_id: z.number().int().describe('ID of the employee'),
+  time: timeSchema,
+  project_id: z.number().int().optional().describe('Project the time is booked on'),
+  comment: z.string().optional().describe('Comment for the attendance'),
+  continue_attendance_id: z.number().int().optional()
+    .describe('Continue this attendance of the employee from today; the time since it ended counts as break')
+});
+
+const breakSchema = z.object({
+  employee_id: z.number().int().describe('ID of the employee'),
+  time: timeSchema
+});
+
+const clockOutSchema = z.object({
+  employee_id: z.number().int().describe('ID of the employee'),
+  time: timeSchema,
+  comment: z.string().optional().describe('Comment for the attendance; replaces the one given at clock-in'),
+  discard: z.boolean().optional().default(false)
+    .describe('Close the session without recording an attendance in Personio'),
+  allow_overlap: z.boolean().optional().default(false)
+    .describe('Record the attendance even if it overlaps another attendance of the employee'),
+  allow_violations: z.boolean().optional().default(false)
+    .describe('Record the attendance even if it breaks the working-time rules')
+});
+
+interface ClosedShift {
+  // The session with an open break dropped, as it is recorded
+  session: ClockSession;
+  end: Date;
+  from: { date: string; time: string };
+  to: { date: string; time: string };
+  breakMinutes: number;
+}
+
+// Clock sessions live in a local store until clock-out writes them to Personio
+export class TimeClockTools {
+  private compliance: Required<ComplianceOptions>;
+
+  constructor(
+    private client: PersonioClient,
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private store: SessionStore,
+    private time: AttendanceTimeOptions = {},
+    compliance: ComplianceOptions = {}
+  ) {
+    this.compliance = resolveComplianceOptions(compliance);
+  }
+
+  getTools(): ToolDefinition[] {
+    return [
+      defineTool({
+        name: 'clock_in',
+        description: 'Start tracking working time for an employee; the attendance is recorded in Personio at clock-out',
+        schema: clockInSchema,
+        handler: (params) => this.clockIn(params)
+      }),
+      defineTool({
+        name: 'start_break',
+        description: 'Pause the running clock-in session of an employee',
+        schema: breakSchema,
+        handler: (params) => this.startBreak(params)
+      }),
+      defineTool({
+        name: 'end_break',
+        description: 'Resume the running clock-in session of an employee after a break',
+        schema: breakSchema,
+        handler: (params) => this.endBreak(params)
+      }),
+      defineTool({
+        name: 'clock_out',
+        description: 'Stop tracking working time and record the session as a Personio attendance with its breaks',
+        schema: clockOutSchema,
+        handler: (params) => this.clockOut(params)
+      })
+    ];
+  }
+
+  private async clockIn(params: z.infer<typeof clockInSchema>): Promise<any> {
+    const employees = await this.directory.getEmployees();
+    const employee = employees.find((entry) => employeeId(entry) === params.employee_id);
+    if (!employee) {
+      throw new PersonioMCPError(`No employee with ID ${params.employee_id}`, 'NOT_FOUND');
+    }
+    const timeZone = employeeTimeZone(employee, this.time);
+    const now = new Date();
+    let clockedInAt = this.resolveTime(params.time, timeZone, now);
+
+    // A continued attendance keeps its start; the pause since it ended becomes a break
+    let continued: Pick<ClockSession, 'attendance_id' | 'recorded_break_minutes' | 'breaks'> = {
+      recorded_break_minutes: 0,
+      breaks: []
+    };
+    if (params.continue_attendance_id !== undefined) {
+      const today = wallClock(now, timeZone).date;
+      const attendances = await this.client.getAllAttendances(
+        { start_date: today, end_date: today, employees: [params.employee_id] },
+        { schedule: (request) => this.rateLimiter.execute(request) }
+      );
+      const attendance = attendances.find((entry) => entry.id === params.continue_attendance_id);
+      if (!attendance) {
+        throw new PersonioMCPError(
+          `Attendance ${params.continue_attendance_id} of employee ${params.employee_id} from ${today} not found`,
+          'NOT_FOUND'
+        );
+      }
+      const shift = shiftInterval(attendance, timeZone);
+      if (shift.end > clockedInAt) {
+        throw new PersonioMCPError(
+          `Attendance ${attendance.id} ends at ${attendance.end_time}, after the clock-in time`,
+          'VALIDATION_ERROR'
+        );
+      }
+      continued = {
+        attendance_id: attendance.id,
+        recorded_break_minutes: attendance.break ?? 0,
+        breaks: [{ started_at: shift.end.toISOString(), ended_at: clockedInAt.toISOString() }]
+      };
+      clockedInAt = shift.start;
+    }
+
+    const session = await this.store.update(params.employee_id, (existing) => {
+      if (existing) {
+        throw new PersonioMCPError(
+          `${existing.name} is already clocked in since ${describeSession(existing).clocked_in}`,
+          'CONFLICT',
+          { session: describeSession(existing) }
+        );
+      }
+      return {
+        employee_id: params.employee_id,
+        name: employeeName(employee),
+        time_zone: timeZone,
+        clocked_in_at: clockedInAt.toISOString(),
+        project_id: params.project_id,
+        comment: params.comment,
+        ...continued
+      };
+    });
+
+    const summary = describeSession(session!, now);
+    return { success: true, session: summary, message: `${summary.name} clocked in at ${summary.clocked_in}` };
+  }
+
+  private async startBreak(params: z.infer<typeof breakSchema>): Promise<any> {
+    const now = new Date();
+    const session = await this.store.update(params.employee_id, (existing) => {
+      const current = this.requireSession(params.employee_id, existing);
+      if (openBreak(current)) {
+        throw new PersonioMCPError(`${current.name} is already on a break`, 'CONFLICT');
+      }
+      const startedAt = this.resolveTime(params.time, current.time_zone, now);
+      this.requireAfterLastEvent(current, startedAt);
+      return { ...current, breaks: [...current.breaks, { started_at: startedAt.toISOString() }] };
+    });
+
+    return { success: true, session: describeSession(session!, now), message: `${session!.name} started a break` };
+  }
+
+  private async endBreak(params: z.infer<typeof breakSchema>): Promise<any> {
+    const now = new Date();
+    const session = await this.store.update(params.employee_id, (existing) => {
+      const current = this.requireSession(params.employee_id, existing);
+      const period = openBreak(current);
+      if (!period) {
+        throw new PersonioMCPError(`${current.name} is not on a break`, 'CONFLICT');
+      }
+      const endedAt = this.resolveTime(params.time, current.time_zone, now);
+      this.requireAfterLastEvent(current, endedAt);
+      return {
+        ...current,
+        breaks: [...current.breaks.slice(0, -1), { ...period, ended_at: endedAt.toISOString() }]
+      };
+    });
+
+    return { success: true, session: describeSession(session!, now), message: `${session!.name} ended a break` };
+  }
+
+  private async clockOut(params: z.infer<typeof clockOutSchema>): Promise<any> {
+    const now = new Date();
+
+    // The session is claimed before anything is written, so concurrent clock-outs cannot
+    // record it twice; it is reopened if the attendance cannot be recorded
+    let session!: ClockSession;
+    let shift: ClosedShift | undefined;
+    await this.store.update(params.employee_id, (existing) => {
+      session = this.requireSession(params.employee_id, existing);
+      shift = params.discard ? undefined : this.closeShift(session, params.time, now);
+      return undefined;
+    });
+
+    if (!shift) {
+      return {
+        success: true,
+        session: describeSession(session, now),
+        message: `Session of ${session.name} discarded without recording an attendance`
+      };
+    }
+
+    let recorded: { attendance: PersonioAttendance; violations?: ComplianceViolation[] };
+    try {
+      recorded = await this.recordShift(session, shift, params);
+    } catch (error) {
+      await this.store.update(params.employee_id, (current) => current ?? session);
+      throw error;
+    }
+
+    const { attendance, violations } = recorded;
+    const { from, to } = shift;
+    const summary = describeSession(shift.session, shift.end);
+    return {
+      success: true,
+      attendance: {
+        id: attendance.id,
+        date: from.date,
+        start_time: from.time,
+        end_time: to.time,
+        break_minutes: shift.breakMinutes,
+        worked_minutes: summary.worked_minutes,
+        ends_next_day: to.date > from.date
+      },
+      ...(violations && { compliance_violations: violations }),
+      message: session.attendance_id !== undefined
+        ? `Attendance ${attendance.id} of ${session.name} extended to ${to.time}`
+        : `${session.name} clocked out; attendance ${attendance.id} recorded`
+    };
+  }
+
+  // The shift a clock-out at the given time ends; throws while the session is still unchanged
+  private closeShift(session: ClockSession, time: string | undefined, now: Date): ClosedShift {
+    // Clocking out during a break ends the shift when the break started
+    const pause = openBreak(session);
+    const end = pause ? new Date(pause.started_at) : this.resolveTime(time, session.time_zone, now);
+    if (!pause) {
+      this.requireAfterLastEvent(session, end);
+    }
+    const closed = { ...session, breaks: pause ? session.breaks.slice(0, -1) : session.breaks };
+
+    const start = new Date(session.clocked_in_at);
+    if (end.getTime() - start.getTime() > MAX_SESSION_HOURS * 3600000) {
+      throw new PersonioMCPError(
+        `Session of ${session.name} has been open for more than ${MAX_SESSION_HOURS} hours; ` +
+          'clock out with an explicit time or discard it',
+        'VALIDATION_ERROR'
+      );
+    }
+    const from = wallClock(start, session.time_zone);
+    const to = wallClock(end, session.time_zone);
+    if (from.time === to.time) {
+      throw new PersonioMCPError('Session is shorter than a minute; discard it instead', 'VALIDATION_ERROR');
+    }
+
+    return { session: closed, end, from, to, breakMinutes: sessionBreakMinutes(closed, end) };
+  }
+
+  // Checks the shift against the employee's other attendances like create_attendance does,
+  // then creates the attendance or extends the continued one
+  private async recordShift(
+    session: ClockSession,
+    shift: ClosedShift,
+    params: z.infer<typeof clockOutSchema>
+  ): Promise<{ attendance: PersonioAttendance; violations?: ComplianceViolation[] }> {
+    const { from, to, breakMinutes } = shift;
+    const entry = {
+      id: session.attendance_id ?? NEW_ENTRY_ID,
+      employee: session.employee_id,
+      date: from.date,
+      start_time: from.time,
+      end_time: to.time,
+      break: breakMinutes
+    } as PersonioAttendance;
+
+    const existing = await this.client.getAllAttendances(
+      {
+        start_date: formatDate(addDays(parseDate(from.date), -1)),
+        end_date: formatDate(addDays(parseDate(from.date), 1)),
+        employees: [session.employee_id]
+      },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+    const others = existing.filter((attendance) => attendance.id !== entry.id);
+    const conflicts = findAttendanceConflicts(entry, others, session.time_zone);
+    if (conflicts.length > 0 && !params.allow_overlap) {
+      throw new PersonioMCPError(
+        `Session overlaps ${conflicts.length} existing attendance(s); set allow_overlap to record it anyway`,
+        'CONFLICT',
+        { conflicts }
+      );
+    }
+
+    let violations: ComplianceViolation[] | undefined;
+    if (this.compliance.writeCheck !== 'off') {
+      violations = violationsForEntry(entry, others, RULE_SETS[this.compliance.ruleSet], session.time_zone)
+        .map((violation) => ({
+          ...violation,
+          attendance_ids: violation.attendance_ids.filter((id) => id !== entry.id)
+        }));
+      if (violations.length > 0 && this.compliance.writeCheck === 'block' && !params.allow_violations) {
+        throw new PersonioMCPError(
+          `Session breaks ${violations.length} working-time rule(s); set allow_violations to record it anyway`,
+          'COMPLIANCE_VIOLATION',
+          { violations }
+        );
+      }
+    }
+
+    const comment = params.comment ?? session.comment;
+    const attendance = await this.rateLimiter.execute(() =>
+      session.attendance_id !== undefined
+        ? this.client.updateAttendance(session.attendance_id, {
+          end_time: to.time,
+          break: breakMinutes,
+          ...(comment !== undefined && { comment })
+        })
+        : this.client.createAttendance({
+          employee: session.employee_id,
+          date: from.date,
+          start_time: from.time,
+          end_time: to.time,
+          break: breakMinutes,
+          comment,
+          project_id: session.project_id
+        })
+    );
+    return { attendance, violations };
+  }
+
+  private requireSession(employeeId: number, session: ClockSession | undefined): ClockSession {
+    if (!session) {
+      throw new PersonioMCPError(`Employee ${employeeId} is not clocked in`, 'NOT_FOUND');
+    }
+    return session;
+  }
+
+  private requireAfterLastEvent(session: ClockSession, instant: Date): void {
+    const last = session.breaks[session.breaks.length - 1];
+    const previous = last ? last.ended_at ?? last.started_at : session.clocked_in_at;
+    if (instant.getTime() <= new Date(previous).getTime()) {
+      throw new PersonioMCPError(
+        `Time must be after ${wallClock(new Date(previous), session.time_zone).time}, the last clock event`,
+        'VALIDATION_ERROR'
+      );
+    }
+  }
+
+  // Now, or the latest past occurrence of an HH:MM time on the employee's clock
+  private resolveTime(time: string | undefined, timeZone: string, now: Date): Date {
+    if (!time) {
+      return new Date(Math.floor(now.getTime() / 60000) * 60000);
+    }
+    const today = wallClock(now, timeZone).date;
+    const instant = zonedInstant(today, timeToMinutes(time), timeZone);
+    return instant > now
+      ? zonedInstant(formatDate(addDays(parseDate(today), -1)), timeToMinutes(time), timeZone)
+      : instant;
+  }
+}
\ No newline at end of file
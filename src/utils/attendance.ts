@@ -0,0 +1,169 @@
+import { PersonioAttendance, PersonioEmployee } from '../api/types.js';
+import { parseDate } from './dates.js';
+
+export interface AttendanceTimeOptions {
+  // IANA time zone the company records attendances in, e.g. Europe/Berlin
+  timeZone?: string;
+  // Employee attribute holding a time zone that overrides the company one
+  timeZoneAttribute?: string;
+}
+
+export interface ShiftInterval {
+  start: Date;
+  end: Date;
+  ends_next_day: boolean;
+}
+
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Shift span in minutes from midnight; an end at or before the start runs past midnight
+export function shiftSpan(startTime: string, endTime: string): [number, number] {
+  const start = timeToMinutes(startTime);
+  let end = timeToMinutes(endTime);
+  if (end <= start) {
+    end += 24 * 60;
+  }
+  return [start, end];
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Minutes the zone is ahead of UTC at the given instant
+export function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant a wall-clock time on a date happens in the zone; minutes may exceed a day.
+// Times skipped by a DST change resolve to the instant after the gap.
+export function zonedInstant(date: string, minutes: number, timeZone: string): Date {
+  const wallClock = parseDate(date).getTime() + minutes * 60000;
+  const guess = wallClock - timeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  const offset = timeZoneOffset(new Date(guess), timeZone);
+  return new Date(wallClock - offset * 60000);
+}
+
+// Date and HH:MM time an instant shows on a clock in the zone
+export function wallClock(instant: Date, timeZone: string): { date: string; time: string } {
+  const local = new Date(instant.getTime() + timeZoneOffset(instant, timeZone) * 60000).toISOString();
+  return { date: local.slice(0, 10), time: local.slice(11, 16) };
+}
+
+// ISO timestamp in the zone's local time with its UTC offset, e.g. 2025-03-30T22:00:00+02:00
+export function formatZoned(instant: Date, timeZone: string): string {
+  const offset = timeZoneOffset(instant, timeZone);
+  const local = new Date(instant.getTime() + offset * 60000).toISOString().slice(0, 19);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${local}${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+}
+
+// Start and end of a shift in the zone; an end at or before the start is on the next day
+export function shiftInterval(
+  attendance: Pick<PersonioAttendance, 'date' | 'start_time' | 'end_time'>,
+  timeZone: string
+): ShiftInterval {
+  const [start, end] = shiftSpan(attendance.start_time, attendance.end_time);
+  return {
+    start: zonedInstant(attendance.date, start, timeZone),
+    end: zonedInstant(attendance.date, end, timeZone),
+    ends_next_day: end >= 24 * 60
+  };
+}
+
+// Without a time zone shifts are measured on the wall clock, which is off by the
+// DST change for shifts spanning one
+export function workedMinutes(attendance: PersonioAttendance, timeZone?: string): number {
+  if (timeZone) {
+    const { start, end } = shiftInterval(attendance, timeZone);
+    return Math.max(0, (end.getTime() - start.getTime()) / 60000 - (attendance.break ?? 0));
+  }
+  const [start, end] = shiftSpan(attendance.start_time, attendance.end_time);
+  return Math.max(0, end - start - (attendance.break ?? 0));
+}
+
+export function employeeTimeZone(
+  employee: PersonioEmployee | undefined,
+  options: AttendanceTimeOptions
+): string {
+  const fallback = options.timeZone ?? 'UTC';
+  if (!employee || !options.timeZoneAttribute) return fallback;
+
+  const value = employee.attributes[options.timeZoneAttribute]?.value;
+  return typeof value === 'string' && isValidTimeZone(value) ? value : fallback;
+}
+
+export function summarizeAttendances(attendances: PersonioAttendance[], timeZone?: string): {
+  entries: number;
+  days_worked: number;
+  total_hours: number;
+  average_hours_per_day: number;
+} {
+  const days = new Set(attendances.map((attendance) => attendance.date));
+  const minutes = attendances.reduce((total, attendance) => total + workedMinutes(attendance, timeZone), 0);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    entries: attendances.length,
+    days_worked: days.size,
+    total_hours: round(minutes / 60),
+    average_hours_per_day: days.size > 0 ? round(minutes / 60 / days.size) : 0
+  };
+}
+
+export interface AttendanceAnomaly {
+  attendance_id: number;
+  employee_id: number;
+  date: string;
+  issue: 'long_day' | 'short_break';
+  detail: string;
+}
+
+// Quick plausibility checks for digests; not a full working-time compliance check.
+// Each entry is measured in the time zone returned for its employee.
+export function findAttendanceAnomalies(
+  attendances: PersonioAttendance[],
+  timeZones: (employeeId: number) => string | undefined = () => undefined
+): AttendanceAnomaly[] {
+  const anomalies: AttendanceAnomaly[] = [];
+
+  for (const attendance of attendances) {
+    const timeZone = timeZones(attendance.employee);
+    const worked = workedMinutes(attendance, timeZone);
+    const span = workedMinutes({ ...attendance, break: 0 }, timeZone);
+    const base = { attendance_id: attendance.id, employee_id: attendance.employee, date: attendance.date };
+
+    if (worked > 10 * 60) {
+      anomalies.push({ ...base, issue: 'long_day', detail: `${Math.round((worked / 60) * 10) / 10}h worked` });
+    }
+    if (span > 6 * 60 && (attendance.break ?? 0) < 30) {
+      anomalies.push({ ...base, issue: 'short_break', detail: `${attendance.break ?? 0} min break` });
+    }
+  }
+
+  return anomalies;
+}
\ No newline at end of file
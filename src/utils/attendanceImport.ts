@@ -0,0 +1,124 @@
+import { PersonioMCPError } from './errors.js';
+import { formatDate, parseDate } from './dates.js';
+import { CsvRecord } from './csv.js';
+
+export interface ImportColumns {
+  employee: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  break?: string;
+  project?: string;
+  comment?: string;
+}
+
+export const DEFAULT_IMPORT_COLUMNS: Required<ImportColumns> = {
+  employee: 'employee',
+  date: 'date',
+  start_time: 'start_time',
+  end_time: 'end_time',
+  break: 'break',
+  project: 'project',
+  comment: 'comment'
+};
+
+export interface ImportRow {
+  // Line of the file the row starts on, so errors can be found in the original
+  row: number;
+  employee: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  project?: string;
+  comment?: string;
+  errors: string[];
+}
+
+const REQUIRED_COLUMNS: (keyof ImportColumns)[] = ['employee', 'date', 'start_time', 'end_time'];
+
+// Accepts YYYY-MM-DD and the German DD.MM.YYYY
+export function normalizeDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const german = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  const parts = iso
+    ? [iso[1], iso[2], iso[3]]
+    : german ? [german[3], german[2].padStart(2, '0'), german[1].padStart(2, '0')] : null;
+  if (!parts) return null;
+
+  const date = parts.join('-');
+  return formatDate(parseDate(date)) === date ? date : null;
+}
+
+// Accepts H:MM and HH:MM with optional seconds, which are dropped
+export function normalizeTime(value: string): string | null {
+  const match = value.match(/^(\d{1,2}):([0-5]\d)(:[0-5]\d)?$/);
+  if (!match || Number(match[1]) > 23) return null;
+  return `${match[1].padStart(2, '0')}:${match[2]}`;
+}
+
+// Minutes as a number or as H:MM
+export function normalizeBreak(value: string): number | null {
+  if (value === '') return 0;
+  if (/^\d+$/.test(value)) return Number(value);
+  const match = value.match(/^(\d{1,2}):([0-5]\d)$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+// Maps the header onto the columns and normalizes every row; problems are collected
+// per row rather than thrown so that a dry run can report all of them at once
+export function readImportRows(records: CsvRecord[], columns: Partial<ImportColumns> = {}): ImportRow[] {
+  if (records.length === 0) {
+    throw new PersonioMCPError('The CSV file is empty', 'VALIDATION_ERROR');
+  }
+
+  const header = records[0].fields.map((name) => name.trim().toLowerCase());
+  const mapping = { ...DEFAULT_IMPORT_COLUMNS, ...columns };
+  const indexes = Object.fromEntries(
+    (Object.keys(mapping) as (keyof ImportColumns)[]).map((key) => [
+      key,
+      header.indexOf(mapping[key].trim().toLowerCase())
+    ])
+  ) as Record<keyof ImportColumns, number>;
+
+  // Optional columns only have to exist when they were mapped explicitly
+  const missing = (Object.keys(indexes) as (keyof ImportColumns)[]).filter(
+    (key) => indexes[key] === -1 && (REQUIRED_COLUMNS.includes(key) || columns[key] !== undefined)
+  );
+  if (missing.length > 0) {
+    throw new PersonioMCPError(
+      `Missing column(s): ${missing.map((key) => `${mapping[key]} (${key})`).join(', ')}`,
+      'VALIDATION_ERROR',
+      { header: records[0].fields }
+    );
+  }
+
+  return records.slice(1).map(({ line, fields: record }) => {
+    const read = (key: keyof ImportColumns) =>
+      indexes[key] === -1 ? '' : (record[indexes[key]] ?? '').trim();
+    const errors: string[] = [];
+
+    const employee = read('employee');
+    if (!employee) errors.push('Employee is missing');
+    const date = normalizeDate(read('date'));
+    if (!date) errors.push(`Invalid date "${read('date')}"; expected YYYY-MM-DD or DD.MM.YYYY`);
+    const startTime = normalizeTime(read('start_time'));
+    if (!startTime) errors.push(`Invalid start time "${read('start_time')}"; expected HH:MM`);
+    const endTime = normalizeTime(read('end_time'));
+    if (!endTime) errors.push(`Invalid end time "${read('end_time')}"; expected HH:MM`);
+    const breakMinutes = normalizeBreak(read('break'));
+    if (breakMinutes === null) errors.push(`Invalid break "${read('break')}"; expected minutes or H:MM`);
+
+    return {
+      row: line,
+      employee,
+      date: date ?? read('date'),
+      start_time: startTime ?? read('start_time'),
+      end_time: endTime ?? read('end_time'),
+      break_minutes: breakMinutes ?? 0,
+      ...(read('project') && { project: read('project') }),
+      ...(read('comment') && { comment: read('comment') }),
+      errors
+    };
+  });
+}
\ No newline at end of file
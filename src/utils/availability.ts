@@ -0,0 +1,138 @@
+import { PersonioAbsence } from '../api/types.js';
+import { Holiday } from './holidays.js';
+import { dayOfWeek, eachDay, parseDate } from './dates.js';
+import { DEFAULT_WEEKLY_SCHEDULE, WEEKDAYS, Weekday, WeeklySchedule } from './workingDays.js';
+
+export type AvailabilityStatus = 'present' | 'absent' | 'half_day' | 'holiday' | 'non_working';
+
+export interface AvailabilityCell {
+  status: AvailabilityStatus;
+  absence_type?: string;
+  absence_status?: string;
+  holiday?: string;
+}
+
+export interface AvailabilityDay {
+  date: string;
+  weekday: Weekday;
+  holiday?: string;
+  // Members expected to work that day
+  scheduled: number;
+  present: number;
+  half_day: number;
+  absent: number;
+  // Half days count as half a person
+  available: number;
+  coverage: number | null;
+  below_minimum: boolean;
+  employees: Record<number, AvailabilityCell>;
+}
+
+export interface TeamMember {
+  id: number;
+  schedule?: WeeklySchedule;
+}
+
+export interface CoverageMinimum {
+  present?: number;
+  ratio?: number;
+}
+
+const INACTIVE_ABSENCE_STATUSES = ['rejected', 'canceled'];
+
+function isHalfDayOn(absence: PersonioAbsence, date: string): boolean {
+  return (
+    (date === absence.start_date && absence.half_day_start) ||
+    (date === absence.end_date && absence.half_day_end)
+  );
+}
+
+function cellFor(
+  member: TeamMember,
+  date: string,
+  weekday: Weekday,
+  holiday: Holiday | undefined,
+  absences: PersonioAbsence[]
+): AvailabilityCell {
+  const schedule = member.schedule ?? DEFAULT_WEEKLY_SCHEDULE;
+  if (schedule[weekday] <= 0) {
+    return { status: 'non_working' };
+  }
+  if (holiday && !holiday.half_day) {
+    return { status: 'holiday', holiday: holiday.name };
+  }
+
+  const onDate = absences.filter((absence) => absence.start_date <= date && date <= absence.end_date);
+  if (onDate.length > 0) {
+    const absence = onDate.find((candidate) => !isHalfDayOn(candidate, date)) ?? onDate[0];
+    // Two half-day absences on the same date take the whole day
+    const halfDay = onDate.length === 1 && isHalfDayOn(absence, date) && !holiday;
+    return {
+      status: halfDay ? 'half_day' : 'absent',
+      absence_type: absence.time_off_type?.name,
+      absence_status: absence.status
+    };
+  }
+
+  if (holiday) {
+    return { status: 'half_day', holiday: holiday.name };
+  }
+  return { status: 'present' };
+}
+
+export function buildAvailability(options: {
+  startDate: string;
+  endDate: string;
+  members: TeamMember[];
+  absences: PersonioAbsence[];
+  holidays?: Holiday[];
+  minimum?: CoverageMinimum;
+}): AvailabilityDay[] {
+  const holidays = new Map((options.holidays ?? []).map((holiday) => [holiday.date, holiday]));
+  const absencesByEmployee = new Map<number, PersonioAbsence[]>();
+  for (const absence of options.absences) {
+    if (INACTIVE_ABSENCE_STATUSES.includes(absence.status)) continue;
+    const list = absencesByEmployee.get(absence.employee.id) ?? [];
+    list.push(absence);
+    absencesByEmployee.set(absence.employee.id, list);
+  }
+
+  return eachDay(options.startDate, options.endDate).map((date) => {
+    const weekday = WEEKDAYS[dayOfWeek(parseDate(date))];
+    const holiday = holidays.get(date);
+
+    const employees: Record<number, AvailabilityCell> = {};
+    for (const member of options.members) {
+      employees[member.id] = cellFor(member, date, weekday, holiday, absencesByEmployee.get(member.id) ?? []);
+    }
+
+    const cells = Object.values(employees);
+    const count = (status: AvailabilityStatus) => cells.filter((cell) => cell.status === status).length;
+    const present = count('present');
+    const halfDay = count('half_day');
+    const absent = count('absent');
+    const scheduled = present + halfDay + absent;
+    const available = present + halfDay / 2;
+    const coverage = scheduled > 0 ? Math.round((available / scheduled) * 100) / 100 : null;
+
+    // Weekends and holidays nobody works are not understaffed
+    const belowMinimum =
+      scheduled > 0 &&
+      ((options.minimum?.present !== undefined && available < options.minimum.present) ||
+        (options.minimum?.ratio !== undefined && coverage! < options.minimum.ratio));
+
+    return {
+      date,
+      weekday,
+      ...(holiday ? { holiday: holiday.name } : {}),
+      scheduled,
+      present,
+      half_day: halfDay,
+      absent,
+      available,
+      coverage,
+      below_minimum: belowMinimum,
+      employees
+    };
+  });
+}
\ No newline at end of file
@@ -56,10 +56,18 @@ export class CacheManager {
     return `employees:${JSON.stringify(params || {})}`;
   }
 
+  static getDirectoryKey(): string {
+    return 'employees:directory';
+  }
+
   static getEmployeeKey(id: number): string {
     return `employee:${id}`;
   }
 
+  static getEmployeeProfileKey(id: number): string {
+    return `resource:employees:${id}`;
+  }
+
   static getAbsencesKey(params?: any): string {
     return `absences:${JSON.stringify(params || {})}`;
   }
@@ -68,7 +76,11 @@ export class CacheManager {
     return 'organization:structure';
   }
 
-  static getPoliciesKey(): string {
-    return 'policies:absence-types';
+  static getHolidaysKey(year: number, region: string): string {
+    return `policies:holidays:${year}:${region}`;
+  }
+
+  static getTimeOffTypesKey(): string {
+    return 'policies:time-off-types';
   }
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import { ToolRegistry } from '../tools/registry.js';
+import { EmployeeDirectory, employeeId, employeeName, isActive } from './directory.js';
+import { getSupportedRegions } from './holidays.js';
+import { AbsenceType } from './timeOffTypes.js';
+
+// Where suggestions for a prompt or resource template argument come from
+export type CompletionSource =
+  | 'employee'
+  | 'employee_id'
+  | 'department'
+  | 'time_off_type'
+  | 'project'
+  | 'period'
+  | 'month'
+  | 'region'
+  | 'year';
+
+export interface Completion {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+// The parts of the resources and tool results that suggestions are read from
+interface DepartmentsResource {
+  departments: { name: string }[];
+}
+
+interface AbsenceTypesResult {
+  absence_types: AbsenceType[];
+}
+
+interface ProjectsResult {
+  projects: { name?: string; attributes?: { name?: string } }[];
+}
+
+// MCP caps a completion response at 100 values
+const MAX_VALUES = 100;
+
+export function foldText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+// Lower is better; undefined means no match
+function matchScore(candidate: string, query: string): number | undefined {
+  const text = foldText(candidate);
+  if (query === '') return 0;
+  if (text.startsWith(query)) return 0;
+  if (text.split(/[\s\-_@.]+/).some((word) => word.startsWith(query))) return 1;
+  if (text.includes(query)) return 2;
+
+  // Letters in order, e.g. "asmi" for "Anna Schmidt"
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) position++;
+    if (position === query.length) return 3;
+  }
+  return undefined;
+}
+
+export function fuzzyRank(candidates: string[], value: string): string[] {
+  const query = foldText(value);
+  // Equal scores keep the order the candidates came in
+  return Array.from(new Set(candidates))
+    .map((candidate, index) => ({ candidate, index, score: matchScore(candidate, query) }))
+    .filter((entry) => entry.score !== undefined)
+    .sort((a, b) => a.score! - b.score! || a.index - b.index)
+    .map((entry) => entry.candidate);
+}
+
+export class CompletionProvider {
+  constructor(
+    private directory: EmployeeDirectory,
+    private tools: ToolRegistry,
+    private readResource: (uri: string) => Promise<unknown>
+  ) {}
+
+  async complete(source: CompletionSource | undefined, value: string): Promise<Completion> {
+    if (!source) {
+      return { values: [], total: 0, hasMore: false };
+    }
+
+    const ranked = source === 'employee_id'
+      ? await this.completeEmployeeId(value)
+      : fuzzyRank(await this.candidates(source), value);
+
+    return {
+      values: ranked.slice(0, MAX_VALUES),
+      total: ranked.length,
+      hasMore: ranked.length > MAX_VALUES
+    };
+  }
+
+  private async candidates(source: CompletionSource): Promise<string[]> {
+    switch (source) {
+      case 'employee': {
+        const employees = await this.directory.getEmployees();
+        return employees.filter(isActive).map(employeeName).sort();
+      }
+      case 'department': {
+        const departments = await this.readResource('personio://organization/departments') as DepartmentsResource;
+        return departments.departments.map((department) => department.name).sort();
+      }
+      case 'time_off_type': {
+        const types: AbsenceTypesResult = await this.tools.call('get_absence_types', {});
+        return types.absence_types.map((type) => type.name);
+      }
+      case 'project': {
+        const projects: ProjectsResult = await this.tools.call('get_projects', {});
+        return projects.projects
+          .map((project) => project.attributes?.name ?? project.name)
+          .filter((name): name is string => name !== undefined);
+      }
+      case 'period':
+        return this.periods();
+      case 'month': {
+        // The current month and the eleven before it
+        const now = new Date();
+        return Array.from({ length: 12 }, (_, offset) => {
+          const date = new Date(Date.UTC(now.getFullYear(), now.getMonth() - offset, 1));
+          return date.toISOString().slice(0, 7);
+        });
+      }
+      case 'region':
+        return getSupportedRegions().map((region) => region.code);
+      case 'year': {
+        const year = new Date().getFullYear();
+        return [year - 1, year, year + 1].map(String);
+      }
+      default:
+        return [];
+    }
+  }
+
+  // IDs match on their digits or on the employee's name
+  private async completeEmployeeId(value: string): Promise<string[]> {
+    const employees = (await this.directory.getEmployees()).filter(isActive);
+    if (/^\d+$/.test(value.trim())) {
+      return employees
+        .map((employee) => String(employeeId(employee)))
+        .filter((id) => id.startsWith(value.trim()))
+        .sort((a, b) => a.length - b.length || a.localeCompare(b));
+    }
+
+    // Namesakes each contribute their own ID
+    const byName = new Map<string, string[]>();
+    for (const employee of employees) {
+      const name = employeeName(employee);
+      byName.set(name, [...(byName.get(name) ?? []), String(employeeId(employee))]);
+    }
+    return fuzzyRank(Array.from(byName.keys()).sort(), value).flatMap((name) => byName.get(name)!);
+  }
+
+  private periods(): string[] {
+    const now = new Date();
+    const year = now.getFullYear();
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    return [
+      `${year}-${month}`,
+      ...[1, 2, 3, 4].map((quarter) => `Q${quarter} ${year}`),
+      `H1 ${year}`,
+      `H2 ${year}`,
+      String(year),
+      ...[1, 2, 3, 4].map((quarter) => `Q${quarter} ${year - 1}`),
+      String(year - 1)
+    ];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { PersonioAttendance } from '../api/types.js';
+import { shiftInterval, shiftSpan, workedMinutes } from './attendance.js';
+import { parseDate } from './dates.js';
+
+export interface BreakRule {
+  // Break required once more than this many hours are worked in a day
+  after_hours: number;
+  minimum_minutes: number;
+}
+
+export interface WorkingTimeRules {
+  breaks: BreakRule[];
+  max_daily_hours: number;
+  min_rest_hours: number;
+  // Gaps between entries on the same day count as break only from this length on
+  min_break_segment_minutes: number;
+}
+
+export type ComplianceRule = 'break' | 'max_daily_hours' | 'min_rest';
+
+export interface ComplianceViolation {
+  employee_id: number;
+  date: string;
+  rule: ComplianceRule;
+  attendance_ids: number[];
+  required: number;
+  actual: number;
+  unit: 'minutes' | 'hours';
+  detail: string;
+}
+
+export type WriteCheck = 'off' | 'warn' | 'block';
+
+export interface ComplianceOptions {
+  // Name of the rule set from RULE_SETS applied when none is requested
+  ruleSet?: string;
+  // What writing tools do with violations of a new or changed entry
+  writeCheck?: WriteCheck;
+}
+
+// Stand-in ID of an entry that does not exist yet in the pre-write checks
+export const NEW_ENTRY_ID = 0;
+
+const DEFAULT_RULE_SET = 'arbzg';
+
+export const RULE_SETS: Record<string, WorkingTimeRules> = {
+  // Arbeitszeitgesetz (§§ 3, 4, 5)
+  arbzg: {
+    breaks: [{ after_hours: 6, minimum_minutes: 30 }, { after_hours: 9, minimum_minutes: 45 }],
+    max_daily_hours: 10,
+    min_rest_hours: 11,
+    min_break_segment_minutes: 15
+  },
+  // Jugendarbeitsschutzgesetz for employees under 18 (§§ 8, 11, 13)
+  jarbschg: {
+    breaks: [{ after_hours: 4.5, minimum_minutes: 30 }, { after_hours: 6, minimum_minutes: 60 }],
+    max_daily_hours: 8,
+    min_rest_hours: 12,
+    min_break_segment_minutes: 15
+  }
+};
+
+// Unknown rule set names fall back to the default instead of disabling the checks
+export function resolveComplianceOptions(options: ComplianceOptions = {}): Required<ComplianceOptions> {
+  const ruleSet = options.ruleSet ?? DEFAULT_RULE_SET;
+  return {
+    ruleSet: RULE_SETS[ruleSet] ? ruleSet : DEFAULT_RULE_SET,
+    writeCheck: options.writeCheck ?? 'warn'
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface WorkDay {
+  employee_id: number;
+  date: string;
+  entries: PersonioAttendance[];
+  // Minutes since the epoch, so that rest periods can be measured across dates
+  start: number;
+  end: number;
+}
+
+// Without a time zone the rest period is measured on the wall clock
+function shiftMinutes(attendance: PersonioAttendance, timeZone?: string): [number, number] {
+  if (timeZone) {
+    const { start, end } = shiftInterval(attendance, timeZone);
+    return [start.getTime() / 60000, end.getTime() / 60000];
+  }
+  const midnight = parseDate(attendance.date).getTime() / 60000;
+  const [start, end] = shiftSpan(attendance.start_time, attendance.end_time);
+  return [midnight + start, midnight + end];
+}
+
+function groupWorkDays(attendances: PersonioAttendance[], timeZone?: string): WorkDay[] {
+  const days = new Map<string, WorkDay>();
+
+  for (const attendance of attendances) {
+    const key = `${attendance.employee}:${attendance.date}`;
+    const [start, end] = shiftMinutes(attendance, timeZone);
+    const day = days.get(key) ?? { employee_id: attendance.employee, date: attendance.date, entries: [], start, end };
+    day.entries.push(attendance);
+    day.start = Math.min(day.start, start);
+    day.end = Math.max(day.end, end);
+    days.set(key, day);
+  }
+
+  return Array.from(days.values()).sort(
+    (a, b) => a.employee_id - b.employee_id || a.date.localeCompare(b.date)
+  );
+}
+
+// Recorded breaks plus the gaps between entries that are long enough to count as one
+function breakMinutes(day: WorkDay, rules: WorkingTimeRules): number {
+  const spans = day.entries
+    .map((entry) => shiftSpan(entry.start_time, entry.end_time))
+    .sort((a, b) => a[0] - b[0]);
+  let gaps = 0;
+  for (let index = 1; index < spans.length; index++) {
+    const gap = spans[index][0] - spans[index - 1][1];
+    if (gap >= rules.min_break_segment_minutes) {
+      gaps += gap;
+    }
+  }
+  return gaps + day.entries.reduce((total, entry) => total + (entry.break ?? 0), 0);
+}
+
+// Evaluates each employee's working days against the rules; the rest period is checked
+// against the previous working day, so pass one day more than the range of interest.
+// The time zone the entries were recorded in makes durations exact across DST changes.
+export function checkCompliance(
+  attendances: PersonioAttendance[],
+  rules: WorkingTimeRules,
+  timeZone?: string
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const days = groupWorkDays(attendances, timeZone);
+
+  days.forEach((day, index) => {
+    const ids = day.entries.map((entry) => entry.id);
+    const base = { employee_id: day.employee_id, date: day.date };
+    const worked = day.entries.reduce((total, entry) => total + workedMinutes(entry, timeZone), 0);
+
+    const required = rules.breaks
+      .filter((rule) => worked > rule.after_hours * 60)
+      .reduce((minimum, rule) => Math.max(minimum, rule.minimum_minutes), 0);
+    const taken = breakMinutes(day, rules);
+    if (taken < required) {
+      violations.push({
+        ...base,
+        rule: 'break',
+        attendance_ids: ids,
+        required,
+        actual: taken,
+        unit: 'minutes',
+        detail: `${taken} min break for ${round(worked / 60)}h worked; ${required} min required`
+      });
+    }
+
+    if (worked > rules.max_daily_hours * 60) {
+      violations.push({
+        ...base,
+        rule: 'max_daily_hours',
+        attendance_ids: ids,
+        required: rules.max_daily_hours,
+        actual: round(worked / 60),
+        unit: 'hours',
+        detail: `${round(worked / 60)}h worked; at most ${rules.max_daily_hours}h allowed`
+      });
+    }
+
+    const previous = days[index - 1];
+    if (previous && previous.employee_id === day.employee_id) {
+      const rest = day.start - previous.end;
+      if (rest < rules.min_rest_hours * 60) {
+        const last = previous.entries.reduce((latest, entry) =>
+          shiftMinutes(entry, timeZone)[1] > shiftMinutes(latest, timeZone)[1] ? entry : latest
+        );
+        violations.push({
+          ...base,
+          rule: 'min_rest',
+          attendance_ids: [last.id, ...ids],
+          required: rules.min_rest_hours,
+          actual: round(rest / 60),
+          unit: 'hours',
+          detail: `${round(rest / 60)}h rest since ${previous.date}; ${rules.min_rest_hours}h required`
+        });
+      }
+    }
+  });
+
+  return violations;
+}
+
+// Violations that a new or changed entry would cause, checked against the employee's
+// other entries around its date
+export function violationsForEntry(
+  entry: PersonioAttendance,
+  others: PersonioAttendance[],
+  rules: WorkingTimeRules,
+  timeZone?: string
+): ComplianceViolation[] {
+  const attendances = [
+    ...others.filter((attendance) => attendance.id !== entry.id && attendance.employee === entry.employee),
+    entry
+  ];
+  return checkCompliance(attendances, rules, timeZone).filter((violation) => violation.attendance_ids.includes(entry.id));
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { PersonioAbsence, PersonioAttendance } from '../api/types.js';
+import { shiftInterval } from './attendance.js';
+
+export interface Conflict {
+  type: 'absence' | 'attendance';
+  id: number;
+  date_range: { start: string; end: string };
+  status?: string;
+  description: string;
+}
+
+// Rejected and canceled absences no longer block the calendar
+const INACTIVE_ABSENCE_STATUSES = ['rejected', 'canceled'];
+
+export function findAbsenceConflicts(
+  request: { start_date: string; end_date: string; half_day_start?: boolean; half_day_end?: boolean },
+  absences: PersonioAbsence[]
+): Conflict[] {
+  return absences
+    .filter((absence) => !INACTIVE_ABSENCE_STATUSES.includes(absence.status))
+    .filter((absence) => absence.start_date <= request.end_date && request.start_date <= absence.end_date)
+    .filter((absence) => !sharesOnlyComplementaryHalfDay(request, absence))
+    .map((absence) => ({
+      type: 'absence',
+      id: absence.id,
+      date_range: { start: absence.start_date, end: absence.end_date },
+      status: absence.status,
+      description: `${absence.time_off_type?.name ?? 'Absence'} from ${absence.start_date} to ${absence.end_date} (${absence.status})`
+    }));
+}
+
+// An absence ending with a half day and another starting with a half day on
+// that same date take different halves of it, so they do not overlap
+function sharesOnlyComplementaryHalfDay(
+  request: { start_date: string; end_date: string; half_day_start?: boolean; half_day_end?: boolean },
+  absence: PersonioAbsence
+): boolean {
+  if (absence.end_date === request.start_date && absence.start_date < request.start_date) {
+    return Boolean(absence.half_day_end && request.half_day_start);
+  }
+  if (request.end_date === absence.start_date && request.start_date < absence.start_date) {
+    return Boolean(request.half_day_end && absence.half_day_start);
+  }
+  return false;
+}
+
+// Shifts are compared as intervals in the zone, so a night shift also conflicts with
+// an early shift on the next day; pass the neighbouring days to catch those
+export function findAttendanceConflicts(
+  request: { date: string; start_time: string; end_time: string; ignore_id?: number },
+  attendances: PersonioAttendance[],
+  timeZone: string = 'UTC'
+): Conflict[] {
+  const requested = shiftInterval(request, timeZone);
+
+  return attendances
+    .filter((attendance) => attendance.id !== request.ignore_id)
+    .filter((attendance) => {
+      const { start, end } = shiftInterval(attendance, timeZone);
+      return start < requested.end && requested.start < end;
+    })
+    .map((attendance) => ({
+      type: 'attendance',
+      id: attendance.id,
+      date_range: { start: attendance.date, end: attendance.date },
+      description: `Attendance on ${attendance.date} from ${attendance.start_time} to ${attendance.end_time}`
+    }));
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+export interface CsvRecord {
+  // Line of the file the record starts on, counting from 1
+  line: number;
+  fields: string[];
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain delimiters, line breaks and doubled quotes
+export function parseCsv(text: string, delimiter?: string): CsvRecord[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const separator = delimiter ?? detectDelimiter(content);
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        // Line breaks inside a quoted field still advance the line count
+        if (char === '\n' || (char === '\r' && content[index + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[index + 1] === '\n') index++;
+      record.push(field);
+      records.push({ line: recordLine, fields: record });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, fields: record });
+  }
+
+  // Blank lines carry no data
+  return records.filter((entry) => entry.fields.some((value) => value.trim() !== ''));
+}
+
+// Spreadsheets exported with German settings use semicolons
+function detectDelimiter(content: string): string {
+  const header = content.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map((candidate) => ({
+    candidate,
+    count: header.split(candidate).length - 1
+  }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).candidate;
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+// Calendar-date helpers. Dates are handled as UTC midnight so that
+// YYYY-MM-DD strings never shift with the server's local timezone.
+
+export function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function makeDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 86400000);
+}
+
+// 0 = Sunday ... 6 = Saturday
+export function dayOfWeek(date: Date): number {
+  return date.getUTCDay();
+}
+
+export function eachDay(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  const end = parseDate(endDate);
+  for (let day = parseDate(startDate); day <= end; day = addDays(day, 1)) {
+    days.push(formatDate(day));
+  }
+  return days;
+}
+
+export function yearsBetween(startDate: string, endDate: string): number[] {
+  const first = parseDate(startDate).getUTCFullYear();
+  const last = parseDate(endDate).getUTCFullYear();
+  return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+}
+
+export function lastDayOfMonth(year: number, month: number): string {
+  return formatDate(makeDate(year, month + 1, 0));
+}
+
+// Months from one YYYY-MM to another, inclusive
+export function eachMonth(startMonth: string, endMonth: string): string[] {
+  const months: string[] = [];
+  const [endYear, endMonthNumber] = endMonth.split('-').map(Number);
+  let [year, month] = startMonth.split('-').map(Number);
+  while (year < endYear || (year === endYear && month <= endMonthNumber)) {
+    months.push(`${year}-${String(month).padStart(2, '0')}`);
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+// Understands "2025", "2025-03", "Q1 2025", "2025-Q1", "H2 2025" and
+// "2025-01-01 to 2025-06-30"; returns null for anything else
+export function parsePeriod(period: string): { start_date: string; end_date: string } | null {
+  const text = period.trim().toUpperCase();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4}-\d{2}-\d{2})\s*(?:TO|UNTIL|\.\.|–|—|-)\s*(\d{4}-\d{2}-\d{2})$/))) {
+    return match[1] <= match[2] ? { start_date: match[1], end_date: match[2] } : null;
+  }
+  if ((match = text.match(/^(\d{4})$/))) {
+    return { start_date: `${match[1]}-01-01`, end_date: `${match[1]}-12-31` };
+  }
+  if ((match = text.match(/^(\d{4})-(0[1-9]|1[0-2])$/))) {
+    const year = Number(match[1]);
+    return { start_date: `${match[1]}-${match[2]}-01`, end_date: lastDayOfMonth(year, Number(match[2])) };
+  }
+
+  // Quarters and halves, written either before or after the year
+  match = text.match(/^([QH])([1-4])[\s-]+(\d{4})$/) ?? text.match(/^(\d{4})[\s-]+([QH])([1-4])$/);
+  if (match) {
+    const [unit, index, year] = /^\d/.test(match[1])
+      ? [match[2], Number(match[3]), Number(match[1])]
+      : [match[1], Number(match[2]), Number(match[3])];
+    const months = unit === 'Q' ? 3 : 6;
+    if (index * months > 12) return null;
+    const firstMonth = (index - 1) * months + 1;
+    return {
+      start_date: formatDate(makeDate(year, firstMonth, 1)),
+      end_date: lastDayOfMonth(year, firstMonth + months - 1)
+    };
+  }
+
+  return null;
+}
+
+// Monday of the ISO week containing the date
+export function startOfWeek(date: string): string {
+  const day = parseDate(date);
+  return formatDate(addDays(day, -((dayOfWeek(day) + 6) % 7)));
+}
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { PersonioClient } from '../api/client.js';
+import { PersonioEmployee } from '../api/types.js';
+import { CacheManager } from './cache.js';
+import { RateLimiter } from './rateLimiter.js';
+import { PersonioMCPError } from './errors.js';
+import { EmployeeSearchIndex } from './search.js';
+import { OrgChart, buildOrgChart } from './orgChart.js';
+
+// Attribute accessors shared by everything that reads the employee directory
+export function employeeId(employee: PersonioEmployee): number {
+  return employee.attributes.id?.value;
+}
+
+export function employeeName(employee: PersonioEmployee): string {
+  return `${employee.attributes.first_name?.value ?? ''} ${employee.attributes.last_name?.value ?? ''}`.trim();
+}
+
+export function departmentName(employee: PersonioEmployee): string | undefined {
+  return employee.attributes.department?.value?.attributes?.name;
+}
+
+// The supervisor attribute embeds the manager as a nested employee object
+export function supervisorId(employee: PersonioEmployee): number | undefined {
+  return employee.attributes.supervisor?.value?.attributes?.id?.value;
+}
+
+export function isActive(employee: PersonioEmployee): boolean {
+  const status = employee.attributes.status?.value;
+  return !status || status.toLowerCase() === 'active' || status.toLowerCase() === 'onboarding';
+}
+
+export class EmployeeDirectory {
+  private searchIndex?: EmployeeSearchIndex;
+  private orgChart?: OrgChart;
+  // When the cached list was fetched in full, used as the first incremental sync watermark
+  private fetchedAt?: string;
+
+  constructor(
+    private client: PersonioClient,
+    private cache: CacheManager,
+    private rateLimiter: RateLimiter
+  ) {}
+
+  async getEmployees(): Promise<PersonioEmployee[]> {
+    const cacheKey = CacheManager.getDirectoryKey();
+
+    const cached = this.cache.get<PersonioEmployee[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const fetchedAt = new Date().toISOString();
+    const employees = await this.client.getAllEmployees(
+      {},
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+
+    this.cache.set(cacheKey, employees);
+    this.fetchedAt = fetchedAt;
+    this.searchIndex = undefined;
+    this.orgChart = undefined;
+    return employees;
+  }
+
+  get lastFullFetch(): string | undefined {
+    return this.cache.has(CacheManager.getDirectoryKey()) ? this.fetchedAt : undefined;
+  }
+
+  // Replace or add changed employees in the cached list; returns each one with its previous version
+  async merge(
+    updated: PersonioEmployee[],
+    ttl?: number
+  ): Promise<{ before?: PersonioEmployee; after: PersonioEmployee }[]> {
+    const byId = new Map((await this.getEmployees()).map((employee) => [employeeId(employee), employee]));
+    const merged = updated.map((after) => ({ before: byId.get(employeeId(after)), after }));
+    updated.forEach((employee) => byId.set(employeeId(employee), employee));
+
+    this.cache.set(CacheManager.getDirectoryKey(), Array.from(byId.values()), ttl);
+    this.searchIndex = undefined;
+    this.orgChart = undefined;
+    return merged;
+  }
+
+  // Rebuilt whenever the cached directory has expired or been invalidated
+  async getSearchIndex(): Promise<EmployeeSearchIndex> {
+    if (this.searchIndex && this.cache.has(CacheManager.getDirectoryKey())) {
+      return this.searchIndex;
+    }
+
+    const employees = await this.getEmployees();
+    this.searchIndex = new EmployeeSearchIndex(employees);
+    return this.searchIndex;
+  }
+
+  // Reporting lines between active employees; rebuilt together with the search index
+  async getOrgChart(): Promise<OrgChart> {
+    if (this.orgChart && this.cache.has(CacheManager.getDirectoryKey())) {
+      return this.orgChart;
+    }
+
+    const employees = await this.getEmployees();
+    this.orgChart = buildOrgChart(employees.filter(isActive));
+    return this.orgChart;
+  }
+
+  // Exact full-name matches win over fuzzy ones
+  async findByName(name: string): Promise<PersonioEmployee[]> {
+    const index = await this.getSearchIndex();
+    const { results } = index.search(name, {}, 10);
+
+    const exact = results.filter((result) => result.score === 1);
+    return (exact.length > 0 ? exact : results).map((result) => result.employee);
+  }
+
+  // Pick the best match for a name, keeping the rest so callers can mention them
+  async resolveByName(name: string): Promise<{ employee: PersonioEmployee; others: PersonioEmployee[] }> {
+    const [employee, ...others] = await this.findByName(name);
+    if (!employee) {
+      throw new PersonioMCPError(`No employee matches "${name}"`, 'NOT_FOUND');
+    }
+    return { employee, others };
+  }
+
+  invalidate(): void {
+    this.cache.delete(CacheManager.getDirectoryKey());
+    this.searchIndex = undefined;
+    this.orgChart = undefined;
+    this.fetchedAt = undefined;
+  }
+}
\ No newline at end of file
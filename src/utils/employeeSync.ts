@@ -0,0 +1,231 @@
+import { PersonioClient } from '../api/client.js';
+import { PersonioEmployee } from '../api/types.js';
+import { CacheManager } from './cache.js';
+import { RateLimiter } from './rateLimiter.js';
+import { EmployeeDirectory, employeeId, employeeName } from './directory.js';
+import { AttributeChange, diffEmployee } from './snapshots.js';
+
+export interface EmployeeChangeRecord {
+  employee_id: number;
+  name: string;
+  type: 'created' | 'updated' | 'removed';
+  detected_at: string;
+  changes: Record<string, AttributeChange>;
+}
+
+export interface SyncResult {
+  watermark: string;
+  fetched: number;
+  changes: EmployeeChangeRecord[];
+  // True when the directory had to be loaded in full to start tracking
+  baseline: boolean;
+  // True when the directory was reloaded in full to drop deleted employees
+  full_reload?: boolean;
+}
+
+export interface SyncStatus {
+  tracking_since: string | null;
+  watermark: string | null;
+  last_sync: string | null;
+  last_full_load: string | null;
+}
+
+export interface ChangeFilter {
+  since?: string;
+  employee_id?: number;
+  attributes?: string[];
+}
+
+export interface SyncOptions {
+  // Minutes between background syncs; 0 syncs only on request
+  intervalMinutes?: number;
+  // Hours after which a sync reloads the directory in full; 0 never does
+  fullReloadHours?: number;
+}
+
+// Changes kept in memory for get_employee_changes
+const MAX_CHANGES = 1000;
+
+// Overlap between syncs so that edits racing the previous request are not missed
+const WATERMARK_OVERLAP_MS = 60000;
+
+// Keeps the cached directory fresh by fetching only employees updated since the last sync
+export class EmployeeSync {
+  private watermark?: string;
+  private trackingSince?: string;
+  private lastSync?: string;
+  private lastFullLoad?: string;
+  private changes: EmployeeChangeRecord[] = [];
+  private running?: Promise<SyncResult>;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private client: PersonioClient,
+    private cache: CacheManager,
+    private rateLimiter: RateLimiter,
+    private directory: EmployeeDirectory,
+    private options: SyncOptions = {}
+  ) {}
+
+  get status(): SyncStatus {
+    return {
+      tracking_since: this.trackingSince ?? null,
+      watermark: this.watermark ?? null,
+      last_sync: this.lastSync ?? null,
+      last_full_load: this.lastFullLoad ?? null
+    };
+  }
+
+  // Concurrent callers share the sync already in flight
+  sync(): Promise<SyncResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  getChanges(filter: ChangeFilter = {}): EmployeeChangeRecord[] {
+    const since = filter.since ? new Date(filter.since).getTime() : undefined;
+    const pick = (changes: Record<string, AttributeChange>) =>
+      Object.fromEntries(
+        Object.entries(changes).filter(([attribute]) => !filter.attributes || filter.attributes.includes(attribute))
+      );
+
+    return this.changes
+      .filter((record) => since === undefined || new Date(record.detected_at).getTime() >= since)
+      .filter((record) => filter.employee_id === undefined || record.employee_id === filter.employee_id)
+      .map((record) => (record.type === 'updated' ? { ...record, changes: pick(record.changes) } : record))
+      .filter((record) => record.type !== 'updated' || Object.keys(record.changes).length > 0);
+  }
+
+  start(): void {
+    const minutes = this.options.intervalMinutes ?? 5;
+    if (minutes <= 0 || this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sync().catch((error) => console.error('Employee sync failed:', error.message));
+    }, minutes * 60000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async run(): Promise<SyncResult> {
+    const startedAt = new Date().toISOString();
+
+    // Without a watermark (or once the directory expired) start over from a full load
+    if (!this.watermark || !this.cache.has(CacheManager.getDirectoryKey())) {
+      const employees = await this.directory.getEmployees();
+      await this.directory.merge([], this.retainFor());
+      this.watermark = this.directory.lastFullFetch ?? startedAt;
+      this.trackingSince = this.watermark;
+      this.lastSync = startedAt;
+      this.lastFullLoad = this.watermark;
+      return { watermark: this.watermark, fetched: employees.length, changes: [], baseline: true };
+    }
+
+    // Updated-since requests never return deleted employees, and every merge keeps the
+    // directory cached, so it is reloaded in full now and then and compared as a whole
+    if (this.fullReloadDue(startedAt)) {
+      const before = await this.directory.getEmployees();
+      this.directory.invalidate();
+      const employees = await this.directory.getEmployees();
+      await this.directory.merge([], this.retainFor());
+      const kept = new Set(employees.map(employeeId));
+      const previous = new Map(before.map((employee) => [employeeId(employee), employee]));
+
+      const records = this.recordChanges(
+        employees.map((after) => ({ before: previous.get(employeeId(after)), after })),
+        startedAt
+      );
+      for (const employee of before.filter((entry) => !kept.has(employeeId(entry)))) {
+        this.evict(employeeId(employee));
+        records.push({
+          employee_id: employeeId(employee),
+          name: employeeName(employee),
+          type: 'removed',
+          detected_at: startedAt,
+          changes: {}
+        });
+      }
+      this.cache.delete(CacheManager.getOrganizationKey());
+
+      this.changes = [...this.changes, ...records].slice(-MAX_CHANGES);
+      this.watermark = this.directory.lastFullFetch ?? startedAt;
+      this.lastSync = startedAt;
+      this.lastFullLoad = this.watermark;
+      return {
+        watermark: this.watermark,
+        fetched: employees.length,
+        changes: records,
+        baseline: false,
+        full_reload: true
+      };
+    }
+
+    const since = new Date(new Date(this.watermark).getTime() - WATERMARK_OVERLAP_MS).toISOString();
+    const updated = await this.client.getAllEmployees(
+      { updated_since: since },
+      { schedule: (request) => this.rateLimiter.execute(request) }
+    );
+
+    const merged = await this.directory.merge(updated, this.retainFor());
+    const records = this.recordChanges(merged, startedAt);
+    if (updated.length > 0) {
+      this.cache.delete(CacheManager.getOrganizationKey());
+    }
+
+    this.changes = [...this.changes, ...records].slice(-MAX_CHANGES);
+    this.watermark = startedAt;
+    this.lastSync = startedAt;
+    return { watermark: startedAt, fetched: updated.length, changes: records, baseline: false };
+  }
+
+  private recordChanges(
+    merged: { before?: PersonioEmployee; after: PersonioEmployee }[],
+    detectedAt: string
+  ): EmployeeChangeRecord[] {
+    const records: EmployeeChangeRecord[] = [];
+    for (const { before, after } of merged) {
+      const id = employeeId(after);
+      this.evict(id);
+
+      // Only tracked attributes are reported; other edits just refresh the cache
+      const changes = before ? diffEmployee(before, after) : {};
+      if (before && Object.keys(changes).length === 0) continue;
+
+      records.push({
+        employee_id: id,
+        name: employeeName(after),
+        type: before ? 'updated' : 'created',
+        detected_at: detectedAt,
+        changes
+      });
+    }
+    return records;
+  }
+
+  private evict(id: number): void {
+    this.cache.delete(CacheManager.getEmployeeKey(id));
+    this.cache.delete(CacheManager.getEmployeeProfileKey(id));
+  }
+
+  private fullReloadDue(now: string): boolean {
+    const hours = this.options.fullReloadHours ?? 24;
+    return hours > 0 && this.lastFullLoad !== undefined &&
+      new Date(now).getTime() - new Date(this.lastFullLoad).getTime() >= hours * 3600000;
+  }
+
+  // While syncing in the background the directory stays cached across a missed run
+  private retainFor(): number | undefined {
+    const minutes = this.options.intervalMinutes ?? 5;
+    return minutes > 0 ? minutes * 60 * 3 : undefined;
+  }
+}
\ No newline at end of file
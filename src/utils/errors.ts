@@ -1,3 +1,5 @@
+import { ZodError, ZodIssue } from 'zod';
+
 export class PersonioMCPError extends Error {
   constructor(
     message: string,
@@ -9,7 +11,53 @@ export class PersonioMCPError extends Error {
   }
 }
 
+export interface ValidationIssue {
+  field: string;
+  problem: string;
+  expected?: string;
+  received?: string;
+}
+
+function describeExpected(issue: ZodIssue): string | undefined {
+  switch (issue.code) {
+    case 'invalid_type':
+      return issue.expected;
+    case 'invalid_enum_value':
+      return `one of ${issue.options.map((option) => JSON.stringify(option)).join(', ')}`;
+    case 'invalid_literal':
+      return JSON.stringify(issue.expected);
+    case 'invalid_string':
+      return typeof issue.validation === 'string' ? `${issue.validation} string` : 'string';
+    case 'too_small':
+      return `${issue.type} ${issue.inclusive ? '>=' : '>'} ${issue.minimum}`;
+    case 'too_big':
+      return `${issue.type} ${issue.inclusive ? '<=' : '<'} ${issue.maximum}`;
+    case 'unrecognized_keys':
+      return 'no additional properties';
+    default:
+      return undefined;
+  }
+}
+
+export function validationErrorFromZod(error: ZodError, context?: string): PersonioMCPError {
+  const issues: ValidationIssue[] = error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+    problem: issue.message,
+    expected: describeExpected(issue),
+    received: issue.code === 'invalid_type' ? issue.received : undefined
+  }));
+
+  const fields = issues.map((issue) => issue.field).join(', ');
+  const prefix = context ? `Invalid arguments for ${context}` : 'Invalid arguments';
+
+  return new PersonioMCPError(`${prefix}: ${fields}`, 'VALIDATION_ERROR', { issues });
+}
+
 export function formatError(error: any): { code: string; message: string; details?: any } {
+  if (error instanceof ZodError) {
+    return formatError(validationErrorFromZod(error));
+  }
+
   if (error instanceof PersonioMCPError) {
     return {
       code: error.code,
@@ -0,0 +1,178 @@
+import { PersonioEmployee } from '../api/types.js';
+import { departmentName, isActive } from './directory.js';
+import { addDays, eachMonth, formatDate, lastDayOfMonth, parseDate } from './dates.js';
+
+export interface EmploymentPeriod {
+  hire_date?: string;
+  // Last day of employment
+  termination_date?: string;
+}
+
+export interface HeadcountMonth {
+  month: string;
+  headcount_start: number;
+  headcount_end: number;
+  hires: number;
+  leavers: number;
+  // Leavers as a percentage of the average headcount of the month
+  attrition_rate: number | null;
+}
+
+export interface HeadcountTrend {
+  months: HeadcountMonth[];
+  totals: {
+    hires: number;
+    leavers: number;
+    net_change: number;
+    average_headcount: number;
+    attrition_rate: number | null;
+    annualized_attrition_rate: number | null;
+  };
+  tenure: {
+    as_of: string;
+    average_years: number | null;
+    distribution: Record<TenureBucket, number>;
+  };
+}
+
+export type TenureBucket =
+  | 'under_1_year'
+  | '1_to_2_years'
+  | '2_to_5_years'
+  | '5_to_10_years'
+  | '10_years_plus'
+  | 'unknown';
+
+const TENURE_BUCKETS: { bucket: TenureBucket; below: number }[] = [
+  { bucket: 'under_1_year', below: 1 },
+  { bucket: '1_to_2_years', below: 2 },
+  { bucket: '2_to_5_years', below: 5 },
+  { bucket: '5_to_10_years', below: 10 },
+  { bucket: '10_years_plus', below: Infinity }
+];
+
+function dateValue(value: string | undefined): string | undefined {
+  return value ? value.slice(0, 10) : undefined;
+}
+
+// Personio returns dates as "2021-04-01T00:00:00+02:00"; inactive employees without a
+// termination date cannot be placed on the timeline and are left out
+export function employmentPeriod(employee: PersonioEmployee): EmploymentPeriod | null {
+  const termination = dateValue(employee.attributes.termination_date?.value);
+  if (!termination && !isActive(employee)) {
+    return null;
+  }
+  return { hire_date: dateValue(employee.attributes.hire_date?.value), termination_date: termination };
+}
+
+// Employed at the end of the given day; missing hire dates count as employed since always
+function employedAfter(period: EmploymentPeriod, date: string): boolean {
+  return (
+    (!period.hire_date || period.hire_date <= date) &&
+    (!period.termination_date || period.termination_date > date)
+  );
+}
+
+function percentage(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : null;
+}
+
+export function headcountTrend(periods: EmploymentPeriod[], startMonth: string, endMonth: string): HeadcountTrend {
+  const months = eachMonth(startMonth, endMonth).map((month): HeadcountMonth => {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const dayBefore = formatDate(addDays(parseDate(`${month}-01`), -1));
+    const lastDay = lastDayOfMonth(year, monthNumber);
+
+    const headcountStart = periods.filter((period) => employedAfter(period, dayBefore)).length;
+    const headcountEnd = periods.filter((period) => employedAfter(period, lastDay)).length;
+    const leavers = periods.filter((period) => period.termination_date?.startsWith(month)).length;
+
+    return {
+      month,
+      headcount_start: headcountStart,
+      headcount_end: headcountEnd,
+      hires: periods.filter((period) => period.hire_date?.startsWith(month)).length,
+      leavers,
+      attrition_rate: percentage(leavers, (headcountStart + headcountEnd) / 2)
+    };
+  });
+
+  const hires = months.reduce((total, month) => total + month.hires, 0);
+  const leavers = months.reduce((total, month) => total + month.leavers, 0);
+  const monthlyAverages = months.map((month) => (month.headcount_start + month.headcount_end) / 2);
+  const averageHeadcount = months.length > 0
+    ? monthlyAverages.reduce((total, value) => total + value, 0) / months.length
+    : 0;
+  const attrition = percentage(leavers, averageHeadcount);
+  const [endYear, endMonthNumber] = endMonth.split('-').map(Number);
+
+  return {
+    months,
+    totals: {
+      hires,
+      leavers,
+      net_change: hires - leavers,
+      average_headcount: Math.round(averageHeadcount * 10) / 10,
+      attrition_rate: attrition,
+      annualized_attrition_rate: attrition !== null && months.length > 0
+        ? Math.round((attrition * 12 / months.length) * 10) / 10
+        : null
+    },
+    tenure: tenureDistribution(periods, lastDayOfMonth(endYear, endMonthNumber))
+  };
+}
+
+// Tenure of everyone still employed on the given day
+function tenureDistribution(periods: EmploymentPeriod[], asOf: string): HeadcountTrend['tenure'] {
+  const distribution = Object.fromEntries(
+    [...TENURE_BUCKETS.map(({ bucket }) => bucket), 'unknown'].map((bucket) => [bucket, 0])
+  ) as Record<TenureBucket, number>;
+
+  const years: number[] = [];
+  for (const period of periods.filter((candidate) => employedAfter(candidate, asOf))) {
+    if (!period.hire_date) {
+      distribution.unknown++;
+      continue;
+    }
+    const tenure = (parseDate(asOf).getTime() - parseDate(period.hire_date).getTime()) / (365.25 * 86400000);
+    years.push(tenure);
+    distribution[TENURE_BUCKETS.find(({ below }) => tenure < below)!.bucket]++;
+  }
+
+  return {
+    as_of: asOf,
+    average_years: years.length > 0
+      ? Math.round((years.reduce((total, value) => total + value, 0) / years.length) * 10) / 10
+      : null,
+    distribution
+  };
+}
+
+// Company-wide and per-department trends; departments are taken from the current profile
+export function headcountTrends(
+  employees: PersonioEmployee[],
+  startMonth: string,
+  endMonth: string
+): { company: HeadcountTrend; departments: Record<string, HeadcountTrend>; excluded: number } {
+  const byDepartment = new Map<string, EmploymentPeriod[]>();
+  const all: EmploymentPeriod[] = [];
+  let excluded = 0;
+
+  for (const employee of employees) {
+    const period = employmentPeriod(employee);
+    if (!period) {
+      excluded++;
+      continue;
+    }
+    all.push(period);
+    const department = departmentName(employee) || 'No Department';
+    byDepartment.set(department, [...(byDepartment.get(department) ?? []), period]);
+  }
+
+  const departments: Record<string, HeadcountTrend> = {};
+  for (const name of Array.from(byDepartment.keys()).sort()) {
+    departments[name] = headcountTrend(byDepartment.get(name)!, startMonth, endMonth);
+  }
+
+  return { company: headcountTrend(all, startMonth, endMonth), departments, excluded };
+}
\ No newline at end of file
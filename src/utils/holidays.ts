@@ -0,0 +1,347 @@
+import { CacheManager } from './cache.js';
+import { addDays, dayOfWeek, formatDate, makeDate, yearsBetween } from './dates.js';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  type: 'public' | 'regional' | 'company';
+  half_day?: boolean;
+}
+
+interface HolidayRule {
+  name: string;
+  date: (year: number, easter: Date) => Date;
+  // Subdivisions observing the holiday; omitted for nationwide holidays
+  subdivisions?: string[];
+  from?: number;
+  until?: number;
+}
+
+interface CountryCalendar {
+  name: string;
+  subdivisions: Record<string, string>;
+  rules: HolidayRule[];
+  // Move holidays falling on a weekend to the next working day (e.g. UK bank holidays)
+  substituteWeekends?: boolean;
+}
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return makeDate(year, month, day);
+}
+
+const fixed = (month: number, day: number) => (year: number) => makeDate(year, month, day);
+const easterOffset = (days: number) => (_year: number, easter: Date) => addDays(easter, days);
+
+// Weekday (0 = Sunday) on or after the given date
+function weekdayOnOrAfter(date: Date, weekday: number): Date {
+  return addDays(date, (weekday - dayOfWeek(date) + 7) % 7);
+}
+
+function lastWeekdayOfMonth(year: number, month: number, weekday: number): Date {
+  const last = makeDate(year, month + 1, 0);
+  return addDays(last, -((dayOfWeek(last) - weekday + 7) % 7));
+}
+
+const CALENDARS: Record<string, CountryCalendar> = {
+  DE: {
+    name: 'Germany',
+    subdivisions: {
+      BW: 'Baden-Württemberg',
+      BY: 'Bavaria',
+      BE: 'Berlin',
+      BB: 'Brandenburg',
+      HB: 'Bremen',
+      HH: 'Hamburg',
+      HE: 'Hesse',
+      MV: 'Mecklenburg-Western Pomerania',
+      NI: 'Lower Saxony',
+      NW: 'North Rhine-Westphalia',
+      RP: 'Rhineland-Palatinate',
+      SL: 'Saarland',
+      SN: 'Saxony',
+      ST: 'Saxony-Anhalt',
+      SH: 'Schleswig-Holstein',
+      TH: 'Thuringia'
+    },
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Epiphany', date: fixed(1, 6), subdivisions: ['BW', 'BY', 'ST'] },
+      { name: "International Women's Day", date: fixed(3, 8), subdivisions: ['BE'], from: 2019 },
+      { name: "International Women's Day", date: fixed(3, 8), subdivisions: ['MV'], from: 2023 },
+      { name: 'Good Friday', date: easterOffset(-2) },
+      { name: 'Easter Sunday', date: easterOffset(0), subdivisions: ['BB'] },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      { name: 'Labour Day', date: fixed(5, 1) },
+      { name: 'Ascension Day', date: easterOffset(39) },
+      { name: 'Whit Sunday', date: easterOffset(49), subdivisions: ['BB'] },
+      { name: 'Whit Monday', date: easterOffset(50) },
+      { name: 'Corpus Christi', date: easterOffset(60), subdivisions: ['BW', 'BY', 'HE', 'NW', 'RP', 'SL'] },
+      { name: 'Assumption Day', date: fixed(8, 15), subdivisions: ['SL'] },
+      { name: "World Children's Day", date: fixed(9, 20), subdivisions: ['TH'], from: 2019 },
+      { name: 'German Unity Day', date: fixed(10, 3) },
+      { name: 'Reformation Day', date: fixed(10, 31), from: 2017, until: 2017 },
+      {
+        name: 'Reformation Day',
+        date: fixed(10, 31),
+        subdivisions: ['BB', 'MV', 'SN', 'ST', 'TH'],
+        until: 2016
+      },
+      {
+        name: 'Reformation Day',
+        date: fixed(10, 31),
+        subdivisions: ['BB', 'HB', 'HH', 'MV', 'NI', 'SN', 'ST', 'SH', 'TH'],
+        from: 2018
+      },
+      { name: "All Saints' Day", date: fixed(11, 1), subdivisions: ['BW', 'BY', 'NW', 'RP', 'SL'] },
+      {
+        name: 'Day of Prayer and Repentance',
+        // Wednesday before 23 November
+        date: (year) => weekdayOnOrAfter(makeDate(year, 11, 16), 3),
+        subdivisions: ['SN']
+      },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: "St. Stephen's Day", date: fixed(12, 26) }
+    ]
+  },
+  AT: {
+    name: 'Austria',
+    subdivisions: {},
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Epiphany', date: fixed(1, 6) },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      { name: 'National Holiday', date: fixed(5, 1) },
+      { name: 'Ascension Day', date: easterOffset(39) },
+      { name: 'Whit Monday', date: easterOffset(50) },
+      { name: 'Corpus Christi', date: easterOffset(60) },
+      { name: 'Assumption Day', date: fixed(8, 15) },
+      { name: 'Austrian National Day', date: fixed(10, 26) },
+      { name: "All Saints' Day", date: fixed(11, 1) },
+      { name: 'Immaculate Conception', date: fixed(12, 8) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: "St. Stephen's Day", date: fixed(12, 26) }
+    ]
+  },
+  CH: {
+    name: 'Switzerland',
+    subdivisions: {},
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Good Friday', date: easterOffset(-2) },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      { name: 'Ascension Day', date: easterOffset(39) },
+      { name: 'Whit Monday', date: easterOffset(50) },
+      { name: 'Swiss National Day', date: fixed(8, 1) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: "St. Stephen's Day", date: fixed(12, 26) }
+    ]
+  },
+  NL: {
+    name: 'Netherlands',
+    subdivisions: {},
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Easter Sunday', date: easterOffset(0) },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      {
+        name: "King's Day",
+        // Moved to the Saturday before when 27 April is a Sunday
+        date: (year) => {
+          const kingsDay = makeDate(year, 4, 27);
+          return dayOfWeek(kingsDay) === 0 ? addDays(kingsDay, -1) : kingsDay;
+        }
+      },
+      { name: 'Liberation Day', date: fixed(5, 5) },
+      { name: 'Ascension Day', date: easterOffset(39) },
+      { name: 'Whit Sunday', date: easterOffset(49) },
+      { name: 'Whit Monday', date: easterOffset(50) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: "St. Stephen's Day", date: fixed(12, 26) }
+    ]
+  },
+  FR: {
+    name: 'France',
+    subdivisions: {},
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      { name: 'Labour Day', date: fixed(5, 1) },
+      { name: 'Victory in Europe Day', date: fixed(5, 8) },
+      { name: 'Ascension Day', date: easterOffset(39) },
+      { name: 'Whit Monday', date: easterOffset(50) },
+      { name: 'Bastille Day', date: fixed(7, 14) },
+      { name: 'Assumption Day', date: fixed(8, 15) },
+      { name: "All Saints' Day", date: fixed(11, 1) },
+      { name: 'Armistice Day', date: fixed(11, 11) },
+      { name: 'Christmas Day', date: fixed(12, 25) }
+    ]
+  },
+  ES: {
+    name: 'Spain',
+    subdivisions: {},
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Epiphany', date: fixed(1, 6) },
+      { name: 'Good Friday', date: easterOffset(-2) },
+      { name: 'Labour Day', date: fixed(5, 1) },
+      { name: 'Assumption Day', date: fixed(8, 15) },
+      { name: 'National Day of Spain', date: fixed(10, 12) },
+      { name: "All Saints' Day", date: fixed(11, 1) },
+      { name: 'Constitution Day', date: fixed(12, 6) },
+      { name: 'Immaculate Conception', date: fixed(12, 8) },
+      { name: 'Christmas Day', date: fixed(12, 25) }
+    ]
+  },
+  IT: {
+    name: 'Italy',
+    subdivisions: {},
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Epiphany', date: fixed(1, 6) },
+      { name: 'Easter Sunday', date: easterOffset(0) },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      { name: 'Liberation Day', date: fixed(4, 25) },
+      { name: 'Labour Day', date: fixed(5, 1) },
+      { name: 'Republic Day', date: fixed(6, 2) },
+      { name: 'Assumption Day', date: fixed(8, 15) },
+      { name: "All Saints' Day", date: fixed(11, 1) },
+      { name: 'Immaculate Conception', date: fixed(12, 8) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: "St. Stephen's Day", date: fixed(12, 26) }
+    ]
+  },
+  GB: {
+    name: 'United Kingdom (England and Wales)',
+    subdivisions: {},
+    substituteWeekends: true,
+    rules: [
+      { name: "New Year's Day", date: fixed(1, 1) },
+      { name: 'Good Friday', date: easterOffset(-2) },
+      { name: 'Easter Monday', date: easterOffset(1) },
+      { name: 'Early May Bank Holiday', date: (year) => weekdayOnOrAfter(makeDate(year, 5, 1), 1) },
+      { name: 'Spring Bank Holiday', date: (year) => lastWeekdayOfMonth(year, 5, 1) },
+      { name: 'Summer Bank Holiday', date: (year) => lastWeekdayOfMonth(year, 8, 1) },
+      { name: 'Christmas Day', date: fixed(12, 25) },
+      { name: 'Boxing Day', date: fixed(12, 26) }
+    ]
+  }
+};
+
+export function parseRegion(region: string): { country: string; subdivision?: string } {
+  const [country, subdivision] = region.toUpperCase().split('-');
+  const calendar = CALENDARS[country];
+  if (!calendar) {
+    throw new Error(`Unsupported holiday region: ${region}`);
+  }
+  if (subdivision && !calendar.subdivisions[subdivision]) {
+    throw new Error(`Unsupported holiday region: ${region}`);
+  }
+  return { country, subdivision };
+}
+
+export function getSupportedRegions(): { code: string; name: string }[] {
+  return Object.entries(CALENDARS).flatMap(([country, calendar]) => [
+    { code: country, name: calendar.name },
+    ...Object.entries(calendar.subdivisions).map(([code, name]) => ({
+      code: `${country}-${code}`,
+      name: `${name}, ${calendar.name}`
+    }))
+  ]);
+}
+
+// Public holidays for a year. Without a subdivision only nationwide holidays are returned.
+export function getPublicHolidays(year: number, region: string): Holiday[] {
+  const { country, subdivision } = parseRegion(region);
+  const calendar = CALENDARS[country];
+  const easter = easterSunday(year);
+
+  const holidays: Holiday[] = calendar.rules
+    .filter((rule) => (rule.from === undefined || year >= rule.from) && (rule.until === undefined || year <= rule.until))
+    .filter((rule) => !rule.subdivisions || (subdivision !== undefined && rule.subdivisions.includes(subdivision)))
+    .map((rule) => ({
+      date: formatDate(rule.date(year, easter)),
+      name: rule.name,
+      type: rule.subdivisions ? 'regional' : 'public'
+    }));
+
+  if (calendar.substituteWeekends) {
+    holidays.push(...substituteHolidays(holidays));
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function substituteHolidays(holidays: Holiday[]): Holiday[] {
+  const taken = new Set(holidays.map((holiday) => holiday.date));
+  const substitutes: Holiday[] = [];
+
+  for (const holiday of [...holidays].sort((a, b) => a.date.localeCompare(b.date))) {
+    const date = new Date(`${holiday.date}T00:00:00Z`);
+    if (dayOfWeek(date) !== 0 && dayOfWeek(date) !== 6) continue;
+
+    let substitute = weekdayOnOrAfter(date, 1);
+    while (taken.has(formatDate(substitute))) {
+      substitute = addDays(substitute, 1);
+    }
+    taken.add(formatDate(substitute));
+    substitutes.push({
+      date: formatDate(substitute),
+      name: `${holiday.name} (substitute day)`,
+      type: holiday.type
+    });
+  }
+
+  return substitutes;
+}
+
+// Resolves holidays for a region from the rules above. Personio's public API has no
+// holiday calendar endpoint, so the calendars are always computed.
+export class HolidayCalendar {
+  constructor(
+    private cache: CacheManager,
+    readonly defaultRegion: string = 'DE'
+  ) {}
+
+  async getHolidays(
+    year: number,
+    region: string = this.defaultRegion
+  ): Promise<{ region: string; holidays: Holiday[] }> {
+    const normalized = region.toUpperCase();
+    const cacheKey = CacheManager.getHolidaysKey(year, normalized);
+
+    const cached = this.cache.get<{ region: string; holidays: Holiday[] }>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = { region: normalized, holidays: getPublicHolidays(year, normalized) };
+    this.cache.set(cacheKey, result);
+    return result;
+  }
+
+  async getHolidaysBetween(startDate: string, endDate: string, region?: string): Promise<Holiday[]> {
+    const holidays: Holiday[] = [];
+
+    for (const year of yearsBetween(startDate, endDate)) {
+      const calendar = await this.getHolidays(year, region);
+      holidays.push(...calendar.holidays.filter((holiday) => holiday.date >= startDate && holiday.date <= endDate));
+    }
+
+    return holidays;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,140 @@
+import { PersonioEmployee } from '../api/types.js';
+import { departmentName, employeeId, employeeName, supervisorId } from './directory.js';
+
+export interface OrgNode {
+  id: number;
+  name: string;
+  position?: string;
+  department?: string;
+  supervisor_id: number | null;
+  depth: number;
+  // Direct reports only
+  span_of_control: number;
+  // Everyone below, directly or indirectly
+  total_reports: number;
+  reports: OrgNode[];
+}
+
+export interface OrgChart {
+  roots: OrgNode[];
+  nodes: Map<number, OrgNode>;
+  // Supervisor chains that loop back on themselves, e.g. [4, 9] for 4 -> 9 -> 4
+  cycles: number[][];
+  // Employees whose supervisor is not in the directory
+  orphans: { id: number; name: string; supervisor_id: number }[];
+  metrics: {
+    employees: number;
+    managers: number;
+    max_depth: number;
+    max_span_of_control: number;
+    average_span_of_control: number;
+  };
+}
+
+export function buildOrgChart(employees: PersonioEmployee[]): OrgChart {
+  const nodes = new Map<number, OrgNode>();
+  for (const employee of employees) {
+    const id = employeeId(employee);
+    nodes.set(id, {
+      id,
+      name: employeeName(employee),
+      position: employee.attributes.position?.value,
+      department: departmentName(employee),
+      supervisor_id: supervisorId(employee) ?? null,
+      depth: 0,
+      span_of_control: 0,
+      total_reports: 0,
+      reports: []
+    });
+  }
+
+  const orphans: OrgChart['orphans'] = [];
+  for (const node of nodes.values()) {
+    if (node.supervisor_id !== null && !nodes.has(node.supervisor_id)) {
+      orphans.push({ id: node.id, name: node.name, supervisor_id: node.supervisor_id });
+    }
+  }
+
+  // Walk each supervisor chain; a chain that revisits itself is a cycle
+  const cycles: number[][] = [];
+  const state = new Map<number, 'visiting' | 'done'>();
+  for (const start of nodes.keys()) {
+    const path: number[] = [];
+    let current: number | null = start;
+    while (current !== null && nodes.has(current) && !state.has(current)) {
+      state.set(current, 'visiting');
+      path.push(current);
+      current = nodes.get(current)!.supervisor_id;
+    }
+    if (current !== null && state.get(current) === 'visiting') {
+      cycles.push(path.slice(path.indexOf(current)));
+    }
+    path.forEach((id) => state.set(id, 'done'));
+  }
+
+  // Cycles are broken at their lowest ID, which becomes a root like orphans and top managers
+  const cycleBreaks = new Set(cycles.map((cycle) => Math.min(...cycle)));
+  const roots: OrgNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.supervisor_id !== null ? nodes.get(node.supervisor_id) : undefined;
+    if (!parent || cycleBreaks.has(node.id)) {
+      roots.push(node);
+    } else {
+      parent.reports.push(node);
+    }
+  }
+
+  const byName = (a: OrgNode, b: OrgNode) => a.name.localeCompare(b.name);
+  const visit = (node: OrgNode, depth: number): number => {
+    node.depth = depth;
+    node.reports.sort(byName);
+    node.span_of_control = node.reports.length;
+    node.total_reports = node.reports.reduce((total, report) => total + 1 + visit(report, depth + 1), 0);
+    return node.total_reports;
+  };
+  roots.sort(byName).forEach((root) => visit(root, 0));
+
+  const all = Array.from(nodes.values());
+  const managers = all.filter((node) => node.span_of_control > 0);
+  const totalSpan = managers.reduce((total, node) => total + node.span_of_control, 0);
+
+  return {
+    roots,
+    nodes,
+    cycles,
+    orphans,
+    metrics: {
+      employees: all.length,
+      managers: managers.length,
+      max_depth: all.reduce((max, node) => Math.max(max, node.depth), 0),
+      max_span_of_control: managers.reduce((max, node) => Math.max(max, node.span_of_control), 0),
+      average_span_of_control: managers.length > 0 ? Math.round((totalSpan / managers.length) * 10) / 10 : 0
+    }
+  };
+}
+
+// Everyone below a manager, nearest levels first
+export function allReports(node: OrgNode): OrgNode[] {
+  const result: OrgNode[] = [];
+  const queue = [...node.reports];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    result.push(next);
+    queue.push(...next.reports);
+  }
+  return result;
+}
+
+// Manager chain from the direct supervisor up to the top
+export function reportingChain(chart: OrgChart, id: number): OrgNode[] {
+  const chain: OrgNode[] = [];
+  const seen = new Set<number>([id]);
+  let current = chart.nodes.get(id)?.supervisor_id ?? null;
+  while (current !== null && chart.nodes.has(current) && !seen.has(current)) {
+    const node = chart.nodes.get(current)!;
+    chain.push(node);
+    seen.add(current);
+    current = node.supervisor_id;
+  }
+  return chain;
+}
\ No newline at end of file
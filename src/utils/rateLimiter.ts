@@ -1,39 +1,175 @@
 import PQueue from 'p-queue';
+import { getHeader, parseRateLimitReset, parseRetryAfter, sleep } from '../api/retry.js';
+
+export interface RateLimitBucketConfig {
+  requestsPerMinute?: number;
+  burstLimit?: number;
+}
+
+interface Bucket {
+  queue: PQueue;
+  // Budget reported by Personio for the current window
+  remaining?: number;
+  resetAt?: number;
+  lastStartedAt: number;
+}
+
+const DEFAULT_BUCKET = 'default';
+const ENDPOINT_FAMILIES = ['documents', 'attendances', 'absences', 'employees'];
 
 export class RateLimiter {
-  private queue: PQueue;
+  private buckets: Map<string, Bucket> = new Map();
   private requestsPerMinute: number;
   private burstLimit: number;
 
-  constructor(requestsPerMinute: number = 60, burstLimit: number = 15) {
+  constructor(
+    requestsPerMinute: number = 60,
+    burstLimit: number = 15,
+    buckets: Record<string, RateLimitBucketConfig> = {}
+  ) {
     this.requestsPerMinute = requestsPerMinute;
     this.burstLimit = burstLimit;
 
-    // Configure the queue with rate limiting
-    this.queue = new PQueue({
-      concurrency: this.burstLimit,
-      interval: 60000, // 1 minute
-      intervalCap: this.requestsPerMinute
-    });
+    // Every endpoint family is paced on its own, with the default limits unless configured
+    this.buckets.set(DEFAULT_BUCKET, this.createBucket(this.requestsPerMinute, this.burstLimit));
+    for (const name of ENDPOINT_FAMILIES) {
+      this.buckets.set(name, this.createBucket(this.requestsPerMinute, this.burstLimit));
+    }
+    for (const [name, config] of Object.entries(buckets)) {
+      this.buckets.set(
+        name,
+        this.createBucket(
+          config.requestsPerMinute ?? this.requestsPerMinute,
+          config.burstLimit ?? this.burstLimit
+        )
+      );
+    }
+  }
+
+  // Map an API path to its endpoint family
+  static bucketForPath(path?: string): string {
+    if (!path) return DEFAULT_BUCKET;
+    if (/\/documents(\/|\?|$)/.test(path)) return 'documents';
+    if (path.includes('/attendances')) return 'attendances';
+    if (path.includes('/time-offs') || path.includes('/absence-periods')) return 'absences';
+    if (path.includes('/employees')) return 'employees';
+    return DEFAULT_BUCKET;
+  }
+
+  // Tool calls hold a slot in the default bucket; the client additionally routes each request
+  // through the bucket of its endpoint family, so every page of a fetch waits for the budget.
+  // Requests outside the families already hold a default slot and only wait for its budget.
+  async executeForPath<T>(path: string | undefined, fn: () => Promise<T>): Promise<T> {
+    const bucketName = RateLimiter.bucketForPath(path);
+    if (bucketName !== DEFAULT_BUCKET) {
+      return this.execute(fn, bucketName);
+    }
+    await this.waitForBudget(this.getBucket(DEFAULT_BUCKET));
+    return fn();
+  }
+
+  async execute<T>(fn: () => Promise<T>, bucketName: string = DEFAULT_BUCKET): Promise<T> {
+    const bucket = this.getBucket(bucketName);
+    return bucket.queue.add(async () => {
+      await this.waitForBudget(bucket);
+      return fn();
+    }) as Promise<T>;
+  }
+
+  // Adjust pacing from the X-RateLimit-* headers of a Personio response
+  updateFromHeaders(bucketName: string, headers?: Record<string, any>, status?: number): void {
+    const bucket = this.getBucket(bucketName);
+    const remaining = getHeader(headers, 'x-ratelimit-remaining');
+    const resetIn = parseRateLimitReset(headers);
+    const now = Date.now();
+
+    if (resetIn !== undefined) {
+      bucket.resetAt = now + resetIn;
+    }
+    if (remaining !== undefined && !Number.isNaN(Number(remaining))) {
+      bucket.remaining = Number(remaining);
+    }
+
+    // Personio refused the request, so hold the bucket until it may be retried
+    if (status === 429) {
+      bucket.remaining = 0;
+      bucket.resetAt = Math.max(bucket.resetAt ?? 0, now + (parseRetryAfter(headers) ?? 1000));
+    }
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
-    return this.queue.add(fn) as Promise<T>;
+  getBudget(bucketName: string = DEFAULT_BUCKET): { remaining?: number; reset_at?: string } {
+    const bucket = this.getBucket(bucketName);
+    return {
+      remaining: bucket.remaining,
+      reset_at: bucket.resetAt ? new Date(bucket.resetAt).toISOString() : undefined
+    };
+  }
+
+  getBudgets(): Record<string, { remaining?: number; reset_at?: string }> {
+    return Object.fromEntries(Array.from(this.buckets.keys()).map((name) => [name, this.getBudget(name)]));
   }
 
   get size(): number {
-    return this.queue.size;
+    return this.allQueues().reduce((total, queue) => total + queue.size, 0);
   }
 
   get pending(): number {
-    return this.queue.pending;
+    return this.allQueues().reduce((total, queue) => total + queue.pending, 0);
   }
 
   clear(): void {
-    this.queue.clear();
+    this.allQueues().forEach((queue) => queue.clear());
   }
 
   async onEmpty(): Promise<void> {
-    return this.queue.onEmpty();
+    await Promise.all(this.allQueues().map((queue) => queue.onEmpty()));
+  }
+
+  private createBucket(requestsPerMinute: number, burstLimit: number): Bucket {
+    return {
+      // Configure the queue with rate limiting
+      queue: new PQueue({
+        concurrency: burstLimit,
+        interval: 60000, // 1 minute
+        intervalCap: requestsPerMinute
+      }),
+      lastStartedAt: 0
+    };
+  }
+
+  // Unknown bucket names share the default bucket
+  private getBucket(name: string): Bucket {
+    return this.buckets.get(name) ?? this.buckets.get(DEFAULT_BUCKET)!;
+  }
+
+  private allQueues(): PQueue[] {
+    return Array.from(this.buckets.values()).map((bucket) => bucket.queue);
+  }
+
+  // Spread the remaining budget evenly over the rest of the window
+  private async waitForBudget(bucket: Bucket): Promise<void> {
+    const now = Date.now();
+
+    if (bucket.resetAt === undefined || bucket.remaining === undefined || bucket.resetAt <= now) {
+      bucket.remaining = undefined;
+      bucket.resetAt = undefined;
+      bucket.lastStartedAt = now;
+      return;
+    }
+
+    let wait: number;
+    if (bucket.remaining <= 0) {
+      wait = bucket.resetAt - now;
+    } else {
+      const spacing = (bucket.resetAt - now) / bucket.remaining;
+      wait = Math.max(0, bucket.lastStartedAt + spacing - now);
+      bucket.remaining--;
+    }
+
+    // Reserve the slot before sleeping so concurrent requests queue up behind it
+    bucket.lastStartedAt = now + wait;
+    if (wait > 0) {
+      await sleep(wait);
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { PersonioEmployee } from '../api/types.js';
+import { departmentName, employeeName } from './directory.js';
+
+export type SearchField = 'name' | 'email' | 'department' | 'position';
+
+// Name matches outrank email matches, which outrank department matches
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 3,
+  email: 2,
+  department: 1,
+  position: 1
+};
+
+const MAX_WEIGHT = FIELD_WEIGHTS.name;
+
+const TRANSLITERATIONS: Record<string, string> = {
+  ä: 'ae',
+  ö: 'oe',
+  ü: 'ue',
+  ß: 'ss',
+  æ: 'ae',
+  ø: 'oe',
+  å: 'aa'
+};
+
+export interface SearchFilters {
+  department?: string;
+  position?: string;
+  status?: string;
+}
+
+export interface SearchResult {
+  employee: PersonioEmployee;
+  score: number;
+  matched_fields: SearchField[];
+}
+
+interface IndexEntry {
+  employee: PersonioEmployee;
+  tokens: Record<SearchField, string[]>;
+  initials: string;
+  fullName: string[];
+  filters: { department: string; position: string; status: string };
+}
+
+function stripMarks(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+// "Müller" is indexed as both "mueller" and "muller" so either spelling finds it
+export function foldVariants(text: string): string[] {
+  const lower = text.toLowerCase();
+  const transliterated = stripMarks(lower.replace(/[äöüßæøå]/g, (char) => TRANSLITERATIONS[char]));
+  const stripped = stripMarks(lower);
+  return transliterated === stripped ? [stripped] : [transliterated, stripped];
+}
+
+export function fold(text: string): string {
+  return foldVariants(text)[0];
+}
+
+function tokenize(text: string | undefined): string[] {
+  if (!text) return [];
+  return Array.from(
+    new Set(foldVariants(text).flatMap((variant) => variant.split(/[^a-z0-9]+/).filter(Boolean)))
+  );
+}
+
+// Optimal string alignment distance: insertions, deletions, substitutions and transpositions
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Longer words tolerate more typos
+function allowedTypos(token: string): number {
+  if (token.length >= 8) return 2;
+  if (token.length >= 4) return 1;
+  return 0;
+}
+
+// How well one query token matches one indexed token, from 0 to 1
+function tokenScore(query: string, token: string): number {
+  if (query === token) return 1;
+  if (query.length >= 2 && token.startsWith(query)) return 0.85;
+
+  const typos = allowedTypos(query);
+  if (typos > 0) {
+    const distance = editDistance(query, token, typos);
+    if (distance <= typos) return 0.75 - 0.15 * (distance - 1);
+  }
+
+  if (query.length >= 3 && token.includes(query)) return 0.5;
+  return 0;
+}
+
+export class EmployeeSearchIndex {
+  private entries: IndexEntry[];
+
+  constructor(employees: PersonioEmployee[]) {
+    this.entries = employees.map((employee) => {
+      const nameTokens = tokenize(employeeName(employee));
+      const firstNames = tokenize(employee.attributes.first_name?.value);
+      const lastNames = tokenize(employee.attributes.last_name?.value);
+
+      return {
+        employee,
+        tokens: {
+          name: nameTokens,
+          email: tokenize(employee.attributes.email?.value),
+          department: tokenize(departmentName(employee)),
+          position: tokenize(employee.attributes.position?.value)
+        },
+        initials: `${firstNames[0]?.[0] ?? ''}${lastNames[0]?.[0] ?? ''}`,
+        fullName: foldVariants(employeeName(employee)).map((variant) =>
+          variant.split(/[^a-z0-9]+/).filter(Boolean).join(' ')
+        ),
+        filters: {
+          department: fold(departmentName(employee) ?? ''),
+          position: fold(employee.attributes.position?.value ?? ''),
+          status: fold(employee.attributes.status?.value ?? '')
+        }
+      };
+    });
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  search(query: string, filters: SearchFilters = {}, limit: number = 20): { results: SearchResult[]; total: number } {
+    // Each spelling of the query ("müller" as "mueller" and "muller") is scored on its own
+    const variants = foldVariants(query)
+      .map((variant) => variant.split(/[^a-z0-9]+/).filter(Boolean))
+      .filter((tokens) => tokens.length > 0);
+
+    const results = this.entries
+      .filter((entry) => this.matchesFilters(entry, filters))
+      .map((entry) =>
+        variants
+          .map((tokens) => this.score(entry, tokens))
+          .reduce<SearchResult | null>(
+            (best, result) => (result && (!best || result.score > best.score) ? result : best),
+            null
+          )
+      )
+      .filter((result): result is SearchResult => result !== null)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          employeeName(a.employee).localeCompare(employeeName(b.employee))
+      );
+
+    return { results: results.slice(0, limit), total: results.length };
+  }
+
+  private matchesFilters(entry: IndexEntry, filters: SearchFilters): boolean {
+    return (
+      (!filters.department || entry.filters.department === fold(filters.department)) &&
+      (!filters.position || entry.filters.position.includes(fold(filters.position))) &&
+      (!filters.status || entry.filters.status === fold(filters.status))
+    );
+  }
+
+  private score(entry: IndexEntry, queryTokens: string[]): SearchResult | null {
+    // The exact full name is the strongest possible match
+    if (entry.fullName.includes(queryTokens.join(' '))) {
+      return { employee: entry.employee, score: 1, matched_fields: ['name'] };
+    }
+
+    // Initials such as "A.S." or "a s" for Anna Schmidt
+    const compact = queryTokens.join('');
+    if (queryTokens.every((token) => token.length === 1)) {
+      return compact === entry.initials
+        ? { employee: entry.employee, score: 0.6, matched_fields: ['name'] }
+        : null;
+    }
+
+    // Every query token has to match some field; each counts with its best weighted match
+    const matched = new Set<SearchField>();
+    let total = 0;
+    for (const queryToken of queryTokens) {
+      let best = 0;
+      let bestField: SearchField | undefined;
+      for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+        for (const token of entry.tokens[field]) {
+          const value = tokenScore(queryToken, token) * FIELD_WEIGHTS[field];
+          if (value > best) {
+            best = value;
+            bestField = field;
+          }
+        }
+      }
+      if (!bestField) {
+        // A lone two-letter query may still be initials, e.g. "as"
+        return queryTokens.length === 1 && compact === entry.initials
+          ? { employee: entry.employee, score: 0.6, matched_fields: ['name'] }
+          : null;
+      }
+      matched.add(bestField);
+      total += best;
+    }
+
+    // Stay below the exact full-name score
+    const score = Math.min(0.99, total / (queryTokens.length * MAX_WEIGHT));
+    return {
+      employee: entry.employee,
+      score: Math.round(score * 1000) / 1000,
+      matched_fields: Array.from(matched)
+    };
+  }
+}
\ No newline at end of file
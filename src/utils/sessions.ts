@@ -0,0 +1,112 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { wallClock } from './attendance.js';
+
+export interface BreakPeriod {
+  started_at: string;
+  ended_at?: string;
+}
+
+// An open clock-in of one employee; instants are ISO timestamps in UTC
+export interface ClockSession {
+  employee_id: number;
+  name: string;
+  time_zone: string;
+  clocked_in_at: string;
+  breaks: BreakPeriod[];
+  // Break already recorded on a continued Personio attendance
+  recorded_break_minutes: number;
+  // Set when the session continues an existing attendance, which is updated on clock-out
+  attendance_id?: number;
+  project_id?: number;
+  comment?: string;
+}
+
+export interface SessionOptions {
+  // Directory for sessions.json; clock tools are disabled without it
+  directory?: string;
+}
+
+const minutesBetween = (from: string | Date, to: string | Date) =>
+  Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+export function openBreak(session: ClockSession): BreakPeriod | undefined {
+  const last = session.breaks[session.breaks.length - 1];
+  return last && !last.ended_at ? last : undefined;
+}
+
+// Break minutes up to the given instant, counting an open break until then
+export function sessionBreakMinutes(session: ClockSession, until: Date): number {
+  return session.breaks.reduce(
+    (total, period) => total + Math.max(0, minutesBetween(period.started_at, period.ended_at ?? until)),
+    session.recorded_break_minutes
+  );
+}
+
+export function describeSession(session: ClockSession, now: Date = new Date()) {
+  const onBreak = openBreak(session);
+  const elapsed = Math.max(0, minutesBetween(session.clocked_in_at, now));
+  const breakMinutes = sessionBreakMinutes(session, now);
+  const clockedIn = wallClock(new Date(session.clocked_in_at), session.time_zone);
+
+  return {
+    employee_id: session.employee_id,
+    name: session.name,
+    status: onBreak ? 'on_break' : 'working',
+    date: clockedIn.date,
+    clocked_in: clockedIn.time,
+    clocked_in_at: session.clocked_in_at,
+    time_zone: session.time_zone,
+    ...(onBreak && { on_break_since: wallClock(new Date(onBreak.started_at), session.time_zone).time }),
+    elapsed_minutes: elapsed,
+    break_minutes: breakMinutes,
+    worked_minutes: Math.max(0, elapsed - breakMinutes),
+    attendance_id: session.attendance_id ?? null
+  };
+}
+
+// Open sessions in one JSON file; writes are queued so that concurrent tool calls
+// cannot overwrite each other's changes
+export class SessionStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {}
+
+  async list(): Promise<ClockSession[]> {
+    try {
+      const data = JSON.parse(await readFile(join(this.directory, 'sessions.json'), 'utf8'));
+      return data.sessions;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async get(employeeId: number): Promise<ClockSession | undefined> {
+    return (await this.list()).find((session) => session.employee_id === employeeId);
+  }
+
+  // Replaces the employee's session with the result of change; undefined removes it
+  update(
+    employeeId: number,
+    change: (session: ClockSession | undefined) => ClockSession | undefined
+  ): Promise<ClockSession | undefined> {
+    const run = this.queue.then(async () => {
+      const sessions = await this.list();
+      const next = change(sessions.find((session) => session.employee_id === employeeId));
+      const others = sessions.filter((session) => session.employee_id !== employeeId);
+      await this.write(next ? [...others, next] : others);
+      return next;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(sessions: ClockSession[]): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const target = join(this.directory, 'sessions.json');
+    const sorted = [...sessions].sort((a, b) => a.clocked_in_at.localeCompare(b.clocked_in_at));
+    await writeFile(`${target}.tmp`, JSON.stringify({ sessions: sorted }));
+    await rename(`${target}.tmp`, target);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,381 @@
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { PersonioClient } from '../api/client.js';
+import {
+  PersonioAbsence,
+  PersonioAttendance,
+  PersonioEmployee,
+  PersonioPaginateOptions
+} from '../api/types.js';
+import { RateLimiter } from './rateLimiter.js';
+import { PersonioMCPError } from './errors.js';
+import { departmentName, employeeId, employeeName, isActive, supervisorId } from './directory.js';
+import { addDays, formatDate, parseDate } from './dates.js';
+
+export interface Snapshot {
+  id: string;
+  taken_at: string;
+  // Absences are captured for this window; attendances up to the snapshot day
+  window: { start_date: string; end_date: string };
+  employees: PersonioEmployee[];
+  absences: PersonioAbsence[];
+  attendances: PersonioAttendance[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  taken_at: string;
+  employees: number;
+  absences: number;
+  attendances: number;
+}
+
+export interface AttributeChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface EmployeeChange {
+  id: number;
+  name: string;
+  changes: Record<string, AttributeChange>;
+}
+
+export interface SnapshotOptions {
+  directory?: string;
+  // Minutes between automatic snapshots; 0 takes them only on request
+  intervalMinutes?: number;
+  // Snapshots kept on disk; older ones are deleted
+  retention?: number;
+  // Days of absences and attendances before the snapshot day (absences also a year ahead)
+  historyDays?: number;
+}
+
+// Employee attributes compared between two versions of a profile
+const TRACKED_ATTRIBUTES: Record<string, (employee: PersonioEmployee) => unknown> = {
+  first_name: (employee) => employee.attributes.first_name?.value,
+  last_name: (employee) => employee.attributes.last_name?.value,
+  email: (employee) => employee.attributes.email?.value,
+  status: (employee) => employee.attributes.status?.value,
+  position: (employee) => employee.attributes.position?.value,
+  department: (employee) => departmentName(employee),
+  supervisor_id: (employee) => supervisorId(employee),
+  office: (employee) => employee.attributes.office?.value?.attributes?.name,
+  employment_type: (employee) => employee.attributes.employment_type?.value,
+  weekly_working_hours: (employee) => employee.attributes.weekly_working_hours?.value,
+  hire_date: (employee) => employee.attributes.hire_date?.value,
+  termination_date: (employee) => employee.attributes.termination_date?.value
+};
+
+// Raw attributes a snapshot keeps of each employee: what headcount and the tracked
+// attributes read. Salary and other personal fields are never written to disk.
+const STORED_ATTRIBUTES = [
+  'id',
+  'first_name',
+  'last_name',
+  'email',
+  'status',
+  'position',
+  'department',
+  'office',
+  'employment_type',
+  'weekly_working_hours',
+  'hire_date',
+  'termination_date'
+];
+
+export function snapshotEmployee(employee: PersonioEmployee): PersonioEmployee {
+  const attributes = Object.fromEntries(
+    STORED_ATTRIBUTES
+      .filter((key) => employee.attributes[key] !== undefined)
+      .map((key) => [key, employee.attributes[key]])
+  ) as PersonioEmployee['attributes'];
+
+  // The supervisor attribute embeds the manager's whole profile; only the ID is needed
+  const supervisor = supervisorId(employee);
+  if (supervisor !== undefined) {
+    attributes.supervisor = { value: { type: 'Employee', attributes: { id: { value: supervisor } } } };
+  }
+  return { type: employee.type, attributes };
+}
+
+// IDs are the capture time with the characters that are awkward in file names replaced
+export const SNAPSHOT_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+export function snapshotId(takenAt: string): string {
+  return takenAt.replace(/[:.]/g, '-');
+}
+
+export function summarizeSnapshot(snapshot: Snapshot): SnapshotSummary {
+  return {
+    id: snapshot.id,
+    taken_at: snapshot.taken_at,
+    employees: snapshot.employees.length,
+    absences: snapshot.absences.length,
+    attendances: snapshot.attendances.length
+  };
+}
+
+export function diffEmployee(before: PersonioEmployee, after: PersonioEmployee): Record<string, AttributeChange> {
+  const changes: Record<string, AttributeChange> = {};
+  for (const [attribute, read] of Object.entries(TRACKED_ATTRIBUTES)) {
+    const from = read(before) ?? null;
+    const to = read(after) ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[attribute] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Active headcount as recorded in a snapshot
+export function snapshotHeadcount(snapshot: Snapshot, department?: string) {
+  const employees = snapshot.employees.filter(
+    (employee) => !department || departmentName(employee)?.toLowerCase() === department.toLowerCase()
+  );
+
+  const byDepartment: Record<string, number> = {};
+  const byStatus: Record<string, number> = {};
+  for (const employee of employees) {
+    const status = employee.attributes.status?.value || 'Unknown';
+    byStatus[status] = (byStatus[status] || 0) + 1;
+    if (isActive(employee)) {
+      const name = departmentName(employee) || 'No Department';
+      byDepartment[name] = (byDepartment[name] || 0) + 1;
+    }
+  }
+
+  return {
+    snapshot: { id: snapshot.id, taken_at: snapshot.taken_at },
+    active_headcount: employees.filter(isActive).length,
+    by_department: byDepartment,
+    by_status: byStatus
+  };
+}
+
+export function diffSnapshots(from: Snapshot, to: Snapshot) {
+  const before = new Map(from.employees.map((employee) => [employeeId(employee), employee]));
+  const after = new Map(to.employees.map((employee) => [employeeId(employee), employee]));
+  const person = (employee: PersonioEmployee) => ({
+    id: employeeId(employee),
+    name: employeeName(employee),
+    department: departmentName(employee)
+  });
+
+  const changed: EmployeeChange[] = [];
+  for (const [id, employee] of after) {
+    const previous = before.get(id);
+    if (!previous) continue;
+    const changes = diffEmployee(previous, employee);
+    if (Object.keys(changes).length > 0) {
+      changed.push({ id, name: employeeName(employee), changes });
+    }
+  }
+
+  const absencesBefore = new Map(from.absences.map((absence) => [absence.id, absence]));
+  const absencesAfter = new Map(to.absences.map((absence) => [absence.id, absence]));
+  const absence = (entry: PersonioAbsence) => ({
+    id: entry.id,
+    employee_id: entry.employee?.id,
+    type: entry.time_off_type?.name,
+    start_date: entry.start_date,
+    end_date: entry.end_date,
+    status: entry.status
+  });
+
+  const attendanceIds = (snapshot: Snapshot) => new Set(snapshot.attendances.map((entry) => entry.id));
+  const attendancesBefore = attendanceIds(from);
+  const attendancesAfter = attendanceIds(to);
+
+  return {
+    from: { id: from.id, taken_at: from.taken_at },
+    to: { id: to.id, taken_at: to.taken_at },
+    employees: {
+      added: Array.from(after.values()).filter((employee) => !before.has(employeeId(employee))).map(person),
+      removed: Array.from(before.values()).filter((employee) => !after.has(employeeId(employee))).map(person),
+      changed
+    },
+    absences: {
+      added: Array.from(absencesAfter.values()).filter((entry) => !absencesBefore.has(entry.id)).map(absence),
+      removed: Array.from(absencesBefore.values()).filter((entry) => !absencesAfter.has(entry.id)).map(absence),
+      status_changed: Array.from(absencesAfter.values())
+        .filter((entry) => absencesBefore.has(entry.id) && absencesBefore.get(entry.id)!.status !== entry.status)
+        .map((entry) => ({ ...absence(entry), previous_status: absencesBefore.get(entry.id)!.status }))
+    },
+    // Attendance windows move with each snapshot, so only counts are compared
+    attendances: {
+      added: Array.from(attendancesAfter).filter((id) => !attendancesBefore.has(id)).length,
+      removed: Array.from(attendancesBefore).filter((id) => !attendancesAfter.has(id)).length
+    }
+  };
+}
+
+// One JSON file per snapshot plus an index of summaries, so listing never loads the data.
+// Index updates are queued so that concurrent saves cannot drop each other's entries.
+export class SnapshotStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private directory: string,
+    private retention: number = 365
+  ) {}
+
+  async list(): Promise<SnapshotSummary[]> {
+    try {
+      const index = JSON.parse(await readFile(join(this.directory, 'index.json'), 'utf8'));
+      return index.snapshots;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async load(id: string): Promise<Snapshot> {
+    if (!SNAPSHOT_ID.test(id)) {
+      throw new PersonioMCPError(`Invalid snapshot ID: ${id}`, 'VALIDATION_ERROR');
+    }
+    try {
+      return JSON.parse(await readFile(join(this.directory, `${id}.json`), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new PersonioMCPError(`Snapshot ${id} not found`, 'NOT_FOUND');
+      }
+      throw error;
+    }
+  }
+
+  async save(snapshot: Snapshot): Promise<SnapshotSummary> {
+    await mkdir(this.directory, { recursive: true });
+    await this.writeAtomically(`${snapshot.id}.json`, snapshot);
+
+    const run = this.queue.then(async () => {
+      const previous = (await this.list()).filter((entry) => entry.id !== snapshot.id);
+      const summaries = [...previous, summarizeSnapshot(snapshot)]
+        .sort((a, b) => a.taken_at.localeCompare(b.taken_at));
+      const expired = summaries.slice(0, Math.max(0, summaries.length - this.retention));
+      const kept = summaries.slice(expired.length);
+
+      await this.writeAtomically('index.json', { snapshots: kept });
+      await Promise.all(
+        expired.map((entry) => unlink(join(this.directory, `${entry.id}.json`)).catch(() => undefined))
+      );
+    });
+    this.queue = run.catch(() => undefined);
+    await run;
+
+    return summarizeSnapshot(snapshot);
+  }
+
+  // Accepts a snapshot ID or a date/time; a date resolves to the last snapshot taken by its end
+  async resolve(reference?: string): Promise<Snapshot> {
+    const summaries = await this.list();
+    if (summaries.length === 0) {
+      throw new PersonioMCPError('No snapshots have been taken yet', 'NOT_FOUND');
+    }
+    if (!reference) {
+      return this.load(summaries[summaries.length - 1].id);
+    }
+    if (SNAPSHOT_ID.test(reference)) {
+      return this.load(reference);
+    }
+
+    const instant = new Date(reference);
+    if (Number.isNaN(instant.getTime())) {
+      throw new PersonioMCPError(
+        `Invalid snapshot reference: ${reference}; expected a snapshot ID, date or date-time`,
+        'VALIDATION_ERROR'
+      );
+    }
+    // Timestamps are compared in UTC, like the stored taken_at
+    const cutoff = /^\d{4}-\d{2}-\d{2}$/.test(reference)
+      ? `${reference}T23:59:59.999Z`
+      : instant.toISOString();
+    const match = summaries.filter((entry) => entry.taken_at <= cutoff).pop();
+    if (!match) {
+      throw new PersonioMCPError(
+        `No snapshot was taken on or before ${reference}; the first is from ${summaries[0].taken_at}`,
+        'NOT_FOUND'
+      );
+    }
+    return this.load(match.id);
+  }
+
+  private async writeAtomically(file: string, data: unknown): Promise<void> {
+    const target = join(this.directory, file);
+    await writeFile(`${target}.tmp`, JSON.stringify(data));
+    await rename(`${target}.tmp`, target);
+  }
+}
+
+// Captures snapshots from Personio on demand and on a timer
+export class SnapshotService {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private client: PersonioClient,
+    private rateLimiter: RateLimiter,
+    private store: SnapshotStore,
+    private options: SnapshotOptions = {}
+  ) {}
+
+  async capture(): Promise<SnapshotSummary> {
+    const now = new Date();
+    const today = formatDate(now);
+    const historyDays = this.options.historyDays ?? 90;
+    const window = {
+      start_date: formatDate(addDays(parseDate(today), -historyDays)),
+      end_date: formatDate(addDays(parseDate(today), 365))
+    };
+    const schedule: PersonioPaginateOptions = {
+      schedule: (request) => this.rateLimiter.execute(request)
+    };
+
+    const [employees, absences, attendances] = await Promise.all([
+      this.client.getAllEmployees({}, schedule),
+      this.client.getAllAbsences(window, schedule),
+      this.client.getAllAttendances({ start_date: window.start_date, end_date: today }, schedule)
+    ]);
+
+    const takenAt = now.toISOString();
+    return this.store.save({
+      id: snapshotId(takenAt),
+      taken_at: takenAt,
+      window,
+      employees: employees.map(snapshotEmployee),
+      absences,
+      attendances
+    });
+  }
+
+  start(): Promise<void> {
+    const minutes = this.options.intervalMinutes ?? 1440;
+    if (minutes <= 0 || this.timer) return Promise.resolve();
+
+    const capture = () =>
+      this.capture().then(
+        () => undefined,
+        (error) => console.error('Snapshot failed:', error.message)
+      );
+    this.timer = setInterval(capture, minutes * 60000);
+    // Never keep the process alive just for snapshots
+    this.timer.unref();
+
+    // Catch up at startup when the server was down for longer than the interval
+    return this.store.list().then(
+      (summaries) => {
+        const latest = summaries[summaries.length - 1];
+        if (!latest || Date.now() - new Date(latest.taken_at).getTime() >= minutes * 60000) {
+          return capture();
+        }
+      },
+      (error) => console.error('Snapshot failed:', error.message)
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
\ No newline at end of file
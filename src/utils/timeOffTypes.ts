@@ -0,0 +1,38 @@
+import { PersonioClient } from '../api/client.js';
+import { PersonioTimeOffType } from '../api/types.js';
+import { CacheManager } from './cache.js';
+import { RateLimiter } from './rateLimiter.js';
+
+// Shared by the get_absence_types tool and the absence-types policy resource, cached under the policies TTL
+export async function getTimeOffTypes(
+  client: PersonioClient,
+  cache: CacheManager,
+  rateLimiter: RateLimiter
+): Promise<PersonioTimeOffType[]> {
+  const cacheKey = CacheManager.getTimeOffTypesKey();
+
+  let types = cache.get<PersonioTimeOffType[]>(cacheKey);
+  if (!types) {
+    types = await rateLimiter.execute(() => client.getTimeOffTypes());
+    cache.set(cacheKey, types);
+  }
+  return types;
+}
+
+export interface AbsenceType {
+  id: number;
+  name: string;
+  category: string | null;
+  unit: 'day' | 'hour';
+  half_day_requests_enabled: boolean;
+}
+
+export function transformTimeOffType(type: PersonioTimeOffType): AbsenceType {
+  return {
+    id: type.attributes.id,
+    name: type.attributes.name,
+    category: type.attributes.category ?? null,
+    unit: type.attributes.unit ?? 'day',
+    half_day_requests_enabled: type.attributes.half_day_requests_enabled ?? false
+  };
+}
\ No newline at end of file
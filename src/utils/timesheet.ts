@@ -0,0 +1,204 @@
+import { PersonioAbsence, PersonioAttendance, PersonioEmployee } from '../api/types.js';
+import { Holiday } from './holidays.js';
+import { workedMinutes } from './attendance.js';
+import { dayOfWeek, eachDay, parseDate, startOfWeek } from './dates.js';
+import { WEEKDAYS, Weekday, WeeklySchedule, scheduleFromEmployee } from './workingDays.js';
+
+export type DayCategory = 'weekday' | 'weekend' | 'holiday';
+
+export interface OvertimeRates {
+  weekday: number;
+  weekend: number;
+  holiday: number;
+}
+
+export interface TimesheetDay {
+  date: string;
+  weekday: Weekday;
+  category: DayCategory;
+  holiday?: string;
+  absence?: string;
+  expected_hours: number;
+  worked_hours: number;
+}
+
+export interface TimesheetPeriod {
+  period: string;
+  start_date: string;
+  end_date: string;
+  expected_hours: number;
+  worked_hours: number;
+  balance_hours: number;
+  overtime_hours: { weekday: number; weekend: number; holiday: number; total: number };
+  undertime_hours: number;
+  // Overtime multiplied by the policy rate of the day it was worked on
+  weighted_overtime_hours: number;
+}
+
+// The policy resource lists its working days as "Monday", "Tuesday", ...
+export interface WorkingHoursPolicy {
+  standard_hours?: { per_day?: number; per_week?: number; days?: string[] };
+  overtime?: { rate_weekday?: number; rate_weekend?: number; rate_holiday?: number };
+}
+
+const INACTIVE_ABSENCE_STATUSES = ['rejected', 'canceled'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function overtimeRates(policy: WorkingHoursPolicy): OvertimeRates {
+  return {
+    weekday: policy.overtime?.rate_weekday ?? 1,
+    weekend: policy.overtime?.rate_weekend ?? 1,
+    holiday: policy.overtime?.rate_holiday ?? 1
+  };
+}
+
+// Expected hours per weekday: the employee's work schedule if Personio has one, otherwise the
+// contracted weekly hours spread over the policy's working days, otherwise the policy default
+export function expectedSchedule(
+  employee: PersonioEmployee,
+  policy: WorkingHoursPolicy
+): { schedule: WeeklySchedule; source: 'work_schedule' | 'weekly_working_hours' | 'policy' } {
+  const schedule = scheduleFromEmployee(employee);
+  if (schedule) {
+    return { schedule, source: 'work_schedule' };
+  }
+
+  const days = (policy.standard_hours?.days ?? ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'])
+    .map((day) => day.toLowerCase() as Weekday)
+    .filter((day) => WEEKDAYS.includes(day));
+  const contracted = Number(employee.attributes.weekly_working_hours?.value);
+  const perDay = contracted > 0 && days.length > 0
+    ? contracted / days.length
+    : policy.standard_hours?.per_day ?? 8;
+
+  return {
+    schedule: WEEKDAYS.reduce((result, weekday) => {
+      result[weekday] = days.includes(weekday) ? perDay : 0;
+      return result;
+    }, {} as WeeklySchedule),
+    source: contracted > 0 ? 'weekly_working_hours' : 'policy'
+  };
+}
+
+export function buildTimesheetDays(options: {
+  startDate: string;
+  endDate: string;
+  schedule: WeeklySchedule;
+  attendances: PersonioAttendance[];
+  absences?: PersonioAbsence[];
+  holidays?: Holiday[];
+  // Zone the attendances were recorded in, for exact hours across DST changes
+  timeZone?: string;
+}): TimesheetDay[] {
+  const holidays = new Map((options.holidays ?? []).map((holiday) => [holiday.date, holiday]));
+  const absences = (options.absences ?? []).filter(
+    (absence) => !INACTIVE_ABSENCE_STATUSES.includes(absence.status)
+  );
+
+  // Shifts past midnight count towards the day they started on
+  const worked = new Map<string, number>();
+  for (const attendance of options.attendances) {
+    worked.set(attendance.date, (worked.get(attendance.date) ?? 0) + workedMinutes(attendance, options.timeZone));
+  }
+
+  return eachDay(options.startDate, options.endDate).map((date) => {
+    const weekdayIndex = dayOfWeek(parseDate(date));
+    const weekday = WEEKDAYS[weekdayIndex];
+    const holiday = holidays.get(date);
+    const absence = absences.find((entry) => entry.start_date <= date && date <= entry.end_date);
+
+    // Holidays and absences reduce what is expected; half days by half
+    let expected = options.schedule[weekday];
+    if (holiday) {
+      expected *= holiday.half_day ? 0.5 : 0;
+    }
+    if (absence) {
+      const halfDay =
+        (date === absence.start_date && absence.half_day_start) ||
+        (date === absence.end_date && absence.half_day_end);
+      expected *= halfDay ? 0.5 : 0;
+    }
+
+    return {
+      date,
+      weekday,
+      category: holiday && !holiday.half_day
+        ? 'holiday'
+        : weekdayIndex === 0 || weekdayIndex === 6 ? 'weekend' : 'weekday',
+      ...(holiday && { holiday: holiday.name }),
+      ...(absence && { absence: absence.time_off_type?.name ?? 'Absence' }),
+      expected_hours: round(expected),
+      worked_hours: round((worked.get(date) ?? 0) / 60)
+    };
+  });
+}
+
+// Weekday hours balance out within the period; weekend and holiday hours beyond the
+// expected ones are always overtime at their own rate
+export function summarizeTimesheet(
+  days: TimesheetDay[],
+  rates: OvertimeRates,
+  groupBy: 'week' | 'month'
+): TimesheetPeriod[] {
+  const groups = new Map<string, TimesheetDay[]>();
+  for (const day of days) {
+    const key = groupBy === 'week' ? startOfWeek(day.date) : day.date.slice(0, 7);
+    groups.set(key, [...(groups.get(key) ?? []), day]);
+  }
+
+  return Array.from(groups.entries()).map(([period, entries]) => {
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+    const inCategory = (category: DayCategory) => entries.filter((day) => day.category === category);
+    const beyondExpected = (day: TimesheetDay) => Math.max(0, day.worked_hours - day.expected_hours);
+
+    const weekdayBalance = sum(inCategory('weekday').map((day) => day.worked_hours - day.expected_hours));
+    const weekendShortfall = sum(
+      inCategory('weekend').map((day) => Math.max(0, day.expected_hours - day.worked_hours))
+    );
+
+    const overtime = {
+      weekday: round(Math.max(0, weekdayBalance)),
+      weekend: round(sum(inCategory('weekend').map(beyondExpected))),
+      holiday: round(sum(inCategory('holiday').map(beyondExpected))),
+      total: 0
+    };
+    overtime.total = round(overtime.weekday + overtime.weekend + overtime.holiday);
+
+    const expected = sum(entries.map((day) => day.expected_hours));
+    const worked = sum(entries.map((day) => day.worked_hours));
+
+    return {
+      period,
+      start_date: entries[0].date,
+      end_date: entries[entries.length - 1].date,
+      expected_hours: round(expected),
+      worked_hours: round(worked),
+      balance_hours: round(worked - expected),
+      overtime_hours: overtime,
+      undertime_hours: round(Math.max(0, -weekdayBalance) + weekendShortfall),
+      weighted_overtime_hours: round(
+        overtime.weekday * rates.weekday + overtime.weekend * rates.weekend + overtime.holiday * rates.holiday
+      )
+    };
+  });
+}
+
+export function totalTimesheet(periods: TimesheetPeriod[]): Omit<TimesheetPeriod, 'period' | 'start_date' | 'end_date'> {
+  const sum = (read: (period: TimesheetPeriod) => number) =>
+    round(periods.reduce((total, period) => total + read(period), 0));
+
+  return {
+    expected_hours: sum((period) => period.expected_hours),
+    worked_hours: sum((period) => period.worked_hours),
+    balance_hours: sum((period) => period.balance_hours),
+    overtime_hours: {
+      weekday: sum((period) => period.overtime_hours.weekday),
+      weekend: sum((period) => period.overtime_hours.weekend),
+      holiday: sum((period) => period.overtime_hours.holiday),
+      total: sum((period) => period.overtime_hours.total)
+    },
+    undertime_hours: sum((period) => period.undertime_hours),
+    weighted_overtime_hours: sum((period) => period.weighted_overtime_hours)
+  };
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { PersonioEmployee } from '../api/types.js';
+import { Holiday } from './holidays.js';
+import { dayOfWeek, eachDay, parseDate } from './dates.js';
+
+export const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// Contracted hours per weekday
+export type WeeklySchedule = Record<Weekday, number>;
+
+export const DEFAULT_WEEKLY_SCHEDULE: WeeklySchedule = {
+  sunday: 0,
+  monday: 8,
+  tuesday: 8,
+  wednesday: 8,
+  thursday: 8,
+  friday: 8,
+  saturday: 0
+};
+
+export interface AbsenceDay {
+  date: string;
+  weekday: Weekday;
+  status: 'working' | 'non_working' | 'holiday';
+  counted: number;
+  holiday?: string;
+}
+
+export interface WorkingDaysResult {
+  working_days: number;
+  calendar_days: number;
+  non_working_days: number;
+  holidays: { date: string; name: string }[];
+  days: AbsenceDay[];
+}
+
+// Personio work schedules store hours per weekday as "HH:MM" strings
+function parseHours(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value === '') return 0;
+  const [hours, minutes = '0'] = value.split(':');
+  return Number(hours) + Number(minutes) / 60;
+}
+
+export function scheduleFromEmployee(employee: PersonioEmployee): WeeklySchedule | undefined {
+  const attributes = employee.attributes.work_schedule?.value?.attributes;
+  if (!attributes) {
+    return undefined;
+  }
+
+  return WEEKDAYS.reduce((schedule, weekday) => {
+    schedule[weekday] = parseHours(attributes[weekday]);
+    return schedule;
+  }, {} as WeeklySchedule);
+}
+
+export function calculateWorkingDays(options: {
+  startDate: string;
+  endDate: string;
+  halfDayStart?: boolean;
+  halfDayEnd?: boolean;
+  schedule?: WeeklySchedule;
+  holidays?: Holiday[];
+}): WorkingDaysResult {
+  const schedule = options.schedule ?? DEFAULT_WEEKLY_SCHEDULE;
+  const holidays = new Map((options.holidays ?? []).map((holiday) => [holiday.date, holiday]));
+  const dates = eachDay(options.startDate, options.endDate);
+
+  const days: AbsenceDay[] = dates.map((date, index) => {
+    const weekday = WEEKDAYS[dayOfWeek(parseDate(date))];
+    const holiday = holidays.get(date);
+
+    if (schedule[weekday] <= 0) {
+      return { date, weekday, status: 'non_working', counted: 0 };
+    }
+    if (holiday && !holiday.half_day) {
+      return { date, weekday, status: 'holiday', counted: 0, holiday: holiday.name };
+    }
+
+    // A single-day request is a half day if either flag is set
+    const isFirst = index === 0;
+    const isLast = index === dates.length - 1;
+    const halfDay =
+      (isFirst && options.halfDayStart) ||
+      (isLast && options.halfDayEnd) ||
+      Boolean(holiday?.half_day);
+
+    return {
+      date,
+      weekday,
+      status: 'working',
+      counted: halfDay ? 0.5 : 1,
+      ...(holiday ? { holiday: holiday.name } : {})
+    };
+  });
+
+  return {
+    working_days: days.reduce((total, day) => total + day.counted, 0),
+    calendar_days: days.length,
+    non_working_days: days.filter((day) => day.status === 'non_working').length,
+    holidays: days
+      .filter((day) => day.holiday !== undefined)
+      .map((day) => ({ date: day.date, name: day.holiday! })),
+    days
+  };
+}
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsv } from '../src/utils/csv';
+import { readImportRows } from '../src/utils/attendanceImport';
+import { AttendanceTools } from '../src/tools/attendance';
+import { EmployeeDirectory } from '../src/utils/directory';
+
+function employee(id: number, email: string): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: `Person${id}` },
+      last_name: { value: 'Test' },
+      email: { value: email }
+    }
+  };
+}
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+describe('CSV parsing', () => {
+  it('should handle quotes, semicolons and blank lines', () => {
+    expect(parseCsv('\uFEFFa;b;c\r\n1;"x;y";"say ""hi"""\r\n\r\n2;;\n')).toEqual([
+      { line: 1, fields: ['a', 'b', 'c'] },
+      { line: 2, fields: ['1', 'x;y', 'say "hi"'] },
+      { line: 4, fields: ['2', '', ''] }
+    ]);
+  });
+
+  it('should report the file line of rows after blank lines and multi-line fields', () => {
+    const rows = readImportRows(
+      parseCsv(
+        [
+          'employee,date,start_time,end_time,comment',
+          '1,2025-03-03,09:00,17:00,"Site visit,',
+          'then office"',
+          '',
+          '1,2025-03-04,09:00,25:00,'
+        ].join('\n')
+      )
+    );
+
+    expect(rows.map((row) => row.row)).toEqual([2, 5]);
+    expect(rows[0].comment).toBe('Site visit,\nthen office');
+    expect(rows[1].errors).toEqual(['Invalid end time "25:00"; expected HH:MM']);
+  });
+
+  it('should map custom columns and normalize values', () => {
+    const rows = readImportRows(
+      parseCsv('E-Mail,Tag,Von,Bis,Pause\nanna@example.com,03.03.2025,8:00,16:30,0:30\nanna@example.com,31.02.2025,8:00,25:00,x'),
+      { employee: 'e-mail', date: 'Tag', start_time: 'Von', end_time: 'Bis', break: 'Pause' }
+    );
+
+    expect(rows[0]).toMatchObject({ row: 2, date: '2025-03-03', start_time: '08:00', break_minutes: 30, errors: [] });
+    expect(rows[1].errors).toHaveLength(3);
+  });
+
+  it('should name missing columns', () => {
+    expect(() => readImportRows([{ line: 1, fields: ['employee', 'date', 'start'] }])).toThrow(
+      'Missing column(s): start_time (start_time), end_time (end_time)'
+    );
+  });
+});
+
+describe('import_attendances tool', () => {
+  const csv = [
+    'employee,date,start_time,end_time,break,project',
+    'one@example.com,2025-03-03,09:00,17:00,30,Website',
+    '2,2025-03-03,09:00,12:00,0,',
+    '2,2025-03-03,11:00,14:00,0,',
+    'nobody@example.com,2025-03-03,09:00,17:00,30,',
+    'one@example.com,2025-03-04,09:00,17:00,30,Unknown',
+    '1,2025-03-05,09:00,15:30,0,'
+  ].join('\n');
+
+  function setup(fail: (data: any) => boolean = () => false, existing: any[] = []) {
+    const created: any[] = [];
+    const client: any = {
+      getProjects: async () => [{ id: 7, type: 'Project', attributes: { name: 'Website', active: true } }],
+      getAllAttendances: async () => existing,
+      createAttendance: async (data: any) => {
+        if (fail(data)) throw new Error('Personio rejected the entry');
+        created.push(data);
+        return { id: 100 + created.length, ...data };
+      }
+    };
+    const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+    directory.getEmployees = async () => [employee(1, 'One@Example.com'), employee(2, 'two@example.com')];
+    const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+    const tools = new AttendanceTools(client, {} as any, rateLimiter, directory, {} as any, async () => ({}), {
+      writeCheck: 'warn'
+    }).getTools();
+    const handler = tools.find((tool) => tool.name === 'import_attendances')!.handler;
+    return { handler, created };
+  }
+
+  it('should validate every row in a dry run without creating anything', async () => {
+    const { handler, created } = setup();
+
+    const result = await handler({ file_content: base64(csv), dry_run: true });
+
+    expect(created).toEqual([]);
+    expect(result).toMatchObject({ dry_run: true, total_rows: 6, valid: 3, invalid: 3 });
+    expect(result.rows.map((row: any) => row.status)).toEqual(['valid', 'valid', 'invalid', 'invalid', 'invalid', 'valid']);
+    expect(result.rows[0]).toMatchObject({ employee_id: 1, project_id: 7 });
+    expect(result.rows[2].errors).toEqual(['Overlaps row 3']);
+    expect(result.rows[3].errors[0]).toContain('Unknown employee "nobody@example.com"');
+    expect(result.rows[4].errors).toEqual(['Unknown project "Unknown"']);
+    expect(result.rows[5].compliance_violations).toEqual([expect.objectContaining({ rule: 'break' })]);
+  });
+
+  it('should create valid rows and report failures per row', async () => {
+    const { handler, created } = setup((data) => data.employee === 2);
+
+    const result = await handler({ file_content: base64(csv), dry_run: false });
+
+    expect(result).toMatchObject({ created: 2, failed: 1, invalid: 3 });
+    expect(result.rows[1]).toMatchObject({ status: 'failed', errors: ['Personio rejected the entry'] });
+    expect(result.rows[0]).toMatchObject({ status: 'created', attendance_id: 101 });
+    expect(created[0]).toMatchObject({ employee: 1, date: '2025-03-03', project_id: 7 });
+  });
+
+  it('should skip rows that are already in Personio', async () => {
+    const { handler, created } = setup(() => false, [
+      { id: 55, employee: 1, date: '2025-03-03', start_time: '09:00', end_time: '17:00', break: 30 }
+    ]);
+
+    const result = await handler({ file_content: base64(csv), dry_run: false });
+
+    expect(result.rows[0]).toMatchObject({ status: 'duplicate', attendance_id: 55 });
+    expect(result).toMatchObject({ created: 2, duplicates: 1 });
+    expect(created.map((data) => data.date)).toEqual(['2025-03-03', '2025-03-05']);
+  });
+
+  it('should require exactly one source', async () => {
+    const { handler } = setup();
+
+    await expect(handler({ dry_run: true })).rejects.toThrow('Provide either file_path or file_content');
+    await expect(handler({ file_path: '/does/not/exist.csv', dry_run: true })).rejects.toMatchObject({
+      code: 'NOT_FOUND'
+    });
+  });
+});
\ No newline at end of file
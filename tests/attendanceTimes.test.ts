@@ -0,0 +1,120 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  employeeTimeZone,
+  findAttendanceAnomalies,
+  formatZoned,
+  shiftInterval,
+  summarizeAttendances,
+  timeZoneOffset,
+  workedMinutes
+} from '../src/utils/attendance';
+import { AttendanceTools } from '../src/tools/attendance';
+import { EmployeeDirectory } from '../src/utils/directory';
+
+function attendance(id: number, date: string, start: string, end: string, breakMinutes = 0): any {
+  return { id, employee: 42, date, start_time: start, end_time: end, break: breakMinutes };
+}
+
+describe('time zone aware shifts', () => {
+  it('should resolve the UTC offset of a zone including DST', () => {
+    expect(timeZoneOffset(new Date('2025-01-15T12:00:00Z'), 'Europe/Berlin')).toBe(60);
+    expect(timeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'Europe/Berlin')).toBe(120);
+    expect(timeZoneOffset(new Date('2025-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+  });
+
+  it('should end shifts on the next day when the end is before the start', () => {
+    const shift = shiftInterval(attendance(1, '2025-01-15', '22:00', '06:00'), 'Europe/Berlin');
+
+    expect(shift.ends_next_day).toBe(true);
+    expect(formatZoned(shift.start, 'Europe/Berlin')).toBe('2025-01-15T22:00:00+01:00');
+    expect(formatZoned(shift.end, 'Europe/Berlin')).toBe('2025-01-16T06:00:00+01:00');
+  });
+
+  it('should count the hours actually worked across DST changes', () => {
+    const spring = attendance(1, '2025-03-29', '22:00', '06:00', 30);
+    const autumn = attendance(2, '2025-10-25', '22:00', '06:00', 30);
+
+    expect(workedMinutes(spring, 'Europe/Berlin')).toBe(390);
+    expect(workedMinutes(autumn, 'Europe/Berlin')).toBe(510);
+    expect(workedMinutes(spring)).toBe(450);
+    expect(formatZoned(shiftInterval(spring, 'Europe/Berlin').end, 'Europe/Berlin')).toBe('2025-03-30T06:00:00+02:00');
+  });
+
+  it('should summarize and check shifts in the given time zone', () => {
+    const autumn = attendance(1, '2025-10-25', '19:00', '05:00', 30);
+
+    expect(summarizeAttendances([autumn], 'Europe/Berlin').total_hours).toBe(10.5);
+    expect(findAttendanceAnomalies([autumn])).toEqual([]);
+    expect(findAttendanceAnomalies([autumn], () => 'Europe/Berlin')).toEqual([
+      expect.objectContaining({ attendance_id: 1, issue: 'long_day', detail: '10.5h worked' })
+    ]);
+  });
+
+  it('should prefer a valid time zone from the employee attribute', () => {
+    const options = { timeZone: 'Europe/Berlin', timeZoneAttribute: 'dynamic_99' };
+    const employee = (zone: string): any => ({ attributes: { dynamic_99: { value: zone } } });
+
+    expect(employeeTimeZone(employee('Europe/Lisbon'), options)).toBe('Europe/Lisbon');
+    expect(employeeTimeZone(employee('Mars/Olympus'), options)).toBe('Europe/Berlin');
+    expect(employeeTimeZone(undefined, {})).toBe('UTC');
+  });
+});
+
+describe('attendance tools with overnight shifts', () => {
+  const night = attendance(5, '2025-03-29', '22:00', '06:00', 30);
+  const client: any = {
+    getAttendancesPage: async () => ({ data: [night], total_elements: 1 }),
+    getAllAttendances: async () => [],
+    createAttendance: async (data: any) => ({ id: 6, ...data })
+  };
+  const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+  const tools = new AttendanceTools(
+    client,
+    {} as any,
+    rateLimiter,
+    new EmployeeDirectory({} as any, {} as any, {} as any),
+    {} as any,
+    async () => ({}),
+    { writeCheck: 'off' },
+    { timeZone: 'Europe/Berlin' }
+  ).getTools();
+  const handler = (name: string) => tools.find((tool) => tool.name === name)!.handler;
+
+  it('should report positive durations for night shifts', async () => {
+    const result = await handler('list_attendances')({ limit: 50, offset: 0 });
+
+    expect(result.attendances[0].times).toMatchObject({
+      ends_next_day: true,
+      time_zone: 'Europe/Berlin',
+      start_at: '2025-03-29T22:00:00+01:00',
+      end_at: '2025-03-30T06:00:00+02:00'
+    });
+    expect(result.attendances[0].duration).toEqual({ total_minutes: 390, total_hours: 6.5, formatted: '6h 30m' });
+  });
+
+  it('should create shifts that span midnight', async () => {
+    const result = await handler('create_attendance')({
+      employee_id: 42,
+      date: '2025-01-15',
+      start_time: '22:00',
+      end_time: '06:00',
+      break_duration: 30
+    });
+
+    expect(result.attendance.duration.total_hours).toBe(7.5);
+  });
+
+  it('should reject shifts without length or shorter than their break', async () => {
+    const shift = { employee_id: 42, date: '2025-01-15', start_time: '22:00' };
+
+    await expect(handler('create_attendance')({ ...shift, end_time: '22:00' })).rejects.toThrow('must differ');
+    await expect(handler('create_attendance')({ ...shift, end_time: '22:30', break_duration: 30 }))
+      .rejects.toThrow('does not fit');
+  });
+
+  it('should refuse unknown time zones', () => {
+    expect(() => new AttendanceTools(
+      client, {} as any, rateLimiter, {} as any, {} as any, async () => ({}), {}, { timeZone: 'Nowhere/Town' }
+    )).toThrow('Unknown time zone: Nowhere/Town');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildAvailability } from '../src/utils/availability';
+
+function absence(employeeId: number, start_date: string, end_date: string, overrides: any = {}): any {
+  return {
+    id: employeeId * 100,
+    status: 'approved',
+    start_date,
+    end_date,
+    half_day_start: false,
+    half_day_end: false,
+    time_off_type: { id: 1, name: 'Vacation', category: 'paid_vacation' },
+    employee: { id: employeeId },
+    ...overrides
+  };
+}
+
+describe('buildAvailability', () => {
+  const members = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+  it('should mark absences, half days, holidays and weekends', () => {
+    // Friday 2 May to Monday 5 May 2025; 1 May is a holiday outside the range
+    const days = buildAvailability({
+      startDate: '2025-05-01',
+      endDate: '2025-05-05',
+      members,
+      absences: [
+        absence(1, '2025-05-02', '2025-05-05'),
+        absence(2, '2025-05-02', '2025-05-02', { half_day_start: true, time_off_type: { name: 'Sick leave' } })
+      ],
+      holidays: [{ date: '2025-05-01', name: 'Labour Day', type: 'public' }]
+    });
+
+    expect(days[0].employees[1]).toEqual({ status: 'holiday', holiday: 'Labour Day' });
+    expect(days[0].scheduled).toBe(0);
+    expect(days[1].employees[1]).toEqual({
+      status: 'absent',
+      absence_type: 'Vacation',
+      absence_status: 'approved'
+    });
+    expect(days[1].employees[2].status).toBe('half_day');
+    expect(days[1].employees[2].absence_type).toBe('Sick leave');
+    expect(days[1]).toMatchObject({ scheduled: 3, present: 1, half_day: 1, absent: 1, available: 1.5 });
+    expect(days[2].employees[3]).toEqual({ status: 'non_working' });
+    expect(days[4].present).toBe(2);
+  });
+
+  it('should flag working days below the minimum coverage', () => {
+    const days = buildAvailability({
+      startDate: '2025-05-02',
+      endDate: '2025-05-05',
+      members,
+      absences: [absence(1, '2025-05-02', '2025-05-02'), absence(2, '2025-05-02', '2025-05-02')],
+      minimum: { present: 2 }
+    });
+
+    expect(days.filter((day) => day.below_minimum).map((day) => day.date)).toEqual(['2025-05-02']);
+  });
+
+  it('should use the coverage ratio and ignore canceled absences', () => {
+    const days = buildAvailability({
+      startDate: '2025-05-05',
+      endDate: '2025-05-05',
+      members,
+      absences: [
+        absence(1, '2025-05-05', '2025-05-05'),
+        absence(2, '2025-05-05', '2025-05-05', { status: 'canceled' })
+      ],
+      minimum: { ratio: 0.8 }
+    });
+
+    expect(days[0].coverage).toBe(0.67);
+    expect(days[0].below_minimum).toBe(true);
+  });
+});
\ No newline at end of file
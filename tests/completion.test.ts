@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { CompletionProvider, fuzzyRank } from '../src/utils/completion';
+import { EmployeeDirectory } from '../src/utils/directory';
+
+function employee(id: number, firstName: string, lastName: string, status = 'active'): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: firstName },
+      last_name: { value: lastName },
+      status: { value: status }
+    }
+  };
+}
+
+function providerWith(employees: any[], tools: any = {}, readResource: any = async () => ({})) {
+  const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+  directory.getEmployees = async () => employees;
+  return new CompletionProvider(directory, tools, readResource);
+}
+
+describe('fuzzyRank', () => {
+  it('should rank prefixes before word prefixes, substrings and subsequences', () => {
+    const ranked = fuzzyRank(['Sales', 'Customer Success', 'Operations', 'Research'], 's');
+
+    expect(ranked).toEqual(['Sales', 'Customer Success', 'Operations', 'Research']);
+    expect(fuzzyRank(['Sales', 'Customer Success', 'Operations'], 'su')).toEqual(['Customer Success']);
+    expect(fuzzyRank(['Anna Schmidt', 'Jonas Weber'], 'asmi')).toEqual(['Anna Schmidt']);
+  });
+
+  it('should ignore case and diacritics', () => {
+    expect(fuzzyRank(['Jürgen Müller', 'Zoë Martin'], 'mull')).toEqual(['Jürgen Müller']);
+    expect(fuzzyRank(['Jürgen Müller', 'Zoë Martin'], 'ZOE')).toEqual(['Zoë Martin']);
+  });
+});
+
+describe('CompletionProvider', () => {
+  const employees = [
+    employee(101, 'Anna', 'Schmidt'),
+    employee(102, 'Jonas', 'Weber'),
+    employee(1103, 'Annika', 'Roth'),
+    employee(104, 'Anna', 'Alt', 'inactive')
+  ];
+
+  it('should suggest active employee names', async () => {
+    const completion = await providerWith(employees).complete('employee', 'ann');
+
+    expect(completion).toEqual({ values: ['Anna Schmidt', 'Annika Roth'], total: 2, hasMore: false });
+  });
+
+  it('should complete employee IDs from digits or names', async () => {
+    const provider = providerWith(employees);
+
+    expect((await provider.complete('employee_id', '10')).values).toEqual(['101', '102']);
+    expect((await provider.complete('employee_id', 'weber')).values).toEqual(['102']);
+  });
+
+  it('should take departments, time-off types and projects from resources and tools', async () => {
+    const tools: any = {
+      call: async (name: string) =>
+        name === 'get_absence_types'
+          ? { absence_types: [{ name: 'Vacation' }, { name: 'Sick leave' }] }
+          : { projects: [{ id: 1, attributes: { name: 'Website relaunch' } }] }
+    };
+    const readResource = async () => ({ departments: [{ name: 'Engineering' }, { name: 'Sales' }] });
+    const provider = providerWith(employees, tools, readResource);
+
+    expect((await provider.complete('department', 'eng')).values).toEqual(['Engineering']);
+    expect((await provider.complete('time_off_type', 'sick')).values).toEqual(['Sick leave']);
+    expect((await provider.complete('project', 'web')).values).toEqual(['Website relaunch']);
+  });
+
+  it('should return nothing for arguments without a completion source', async () => {
+    expect(await providerWith(employees).complete(undefined, 'a')).toEqual({
+      values: [],
+      total: 0,
+      hasMore: false
+    });
+  });
+});
\ No newline at end of file
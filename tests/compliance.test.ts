@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals';
+import { RULE_SETS, checkCompliance, violationsForEntry } from '../src/utils/compliance';
+import { AttendanceTools } from '../src/tools/attendance';
+import { EmployeeDirectory } from '../src/utils/directory';
+
+const arbzg = RULE_SETS.arbzg;
+
+function attendance(id: number, date: string, start: string, end: string, breakMinutes = 0, employee = 42): any {
+  return { id, employee, date, start_time: start, end_time: end, break: breakMinutes };
+}
+
+describe('checkCompliance', () => {
+  it('should require 30 minutes of break after 6 hours and 45 after 9', () => {
+    const violations = checkCompliance([
+      attendance(1, '2025-03-03', '08:00', '14:30', 0),
+      attendance(2, '2025-03-04', '08:00', '18:00', 30),
+      attendance(3, '2025-03-05', '08:00', '14:00', 0)
+    ], arbzg);
+
+    expect(violations).toEqual([
+      expect.objectContaining({ date: '2025-03-03', rule: 'break', required: 30, actual: 0 }),
+      expect.objectContaining({ date: '2025-03-04', rule: 'break', required: 45, actual: 30 })
+    ]);
+  });
+
+  it('should count gaps of at least 15 minutes between entries as break', () => {
+    expect(checkCompliance([
+      attendance(1, '2025-03-03', '08:00', '12:00'),
+      attendance(2, '2025-03-03', '12:30', '16:30')
+    ], arbzg)).toEqual([]);
+
+    expect(checkCompliance([
+      attendance(1, '2025-03-03', '08:00', '12:00'),
+      attendance(2, '2025-03-03', '12:10', '16:30')
+    ], arbzg)).toEqual([expect.objectContaining({ rule: 'break', actual: 0, attendance_ids: [1, 2] })]);
+  });
+
+  it('should flag days over 10 hours', () => {
+    const [violation] = checkCompliance([attendance(1, '2025-03-03', '07:00', '18:30', 45)], arbzg);
+
+    expect(violation).toMatchObject({ rule: 'max_daily_hours', required: 10, actual: 10.75, unit: 'hours' });
+  });
+
+  it('should measure rest between working days across midnight', () => {
+    const violations = checkCompliance([
+      attendance(1, '2025-03-03', '14:00', '23:30', 45),
+      attendance(2, '2025-03-04', '08:00', '12:00'),
+      attendance(3, '2025-03-05', '22:00', '02:00'),
+      attendance(4, '2025-03-06', '10:00', '14:00')
+    ], arbzg);
+
+    expect(violations).toEqual([
+      expect.objectContaining({ date: '2025-03-04', rule: 'min_rest', actual: 8.5, attendance_ids: [1, 2] }),
+      expect.objectContaining({ date: '2025-03-06', rule: 'min_rest', actual: 8, attendance_ids: [3, 4] })
+    ]);
+  });
+
+  it('should apply the stricter rules for minors', () => {
+    const violations = checkCompliance([attendance(1, '2025-03-03', '08:00', '17:00', 30)], RULE_SETS.jarbschg);
+
+    expect(violations.map((violation) => violation.rule)).toEqual(['break', 'max_daily_hours']);
+  });
+
+  it('should only report violations involving a given entry', () => {
+    const others = [attendance(1, '2025-03-03', '08:00', '16:00'), attendance(2, '2025-03-04', '08:00', '12:00')];
+
+    expect(violationsForEntry(attendance(0, '2025-03-04', '12:30', '15:00'), others, arbzg)).toEqual([]);
+    expect(violationsForEntry(attendance(0, '2025-03-04', '12:05', '15:00'), others, arbzg)).toEqual([
+      expect.objectContaining({ rule: 'break', attendance_ids: [2, 0] })
+    ]);
+  });
+});
+
+describe('attendance compliance tools', () => {
+  const existing = [attendance(1, '2025-03-03', '13:00', '23:00', 30)];
+  const created: any[] = [];
+  const client: any = {
+    getAllAttendances: async () => existing,
+    createAttendance: async (data: any) => {
+      created.push(data);
+      return { id: 9, ...data };
+    }
+  };
+  const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+  directory.getEmployees = async () => [{
+    type: 'Employee',
+    attributes: { id: { value: 42 }, first_name: { value: 'Anna' }, last_name: { value: 'Schmidt' } }
+  } as any];
+  const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+  const tools = (writeCheck: 'off' | 'warn' | 'block') => {
+    const handlers = new AttendanceTools(client, {} as any, rateLimiter, directory, {} as any, async () => ({}), {
+      writeCheck
+    }).getTools();
+    return (name: string) => handlers.find((tool) => tool.name === name)!.handler;
+  };
+  const early = { employee_id: 42, date: '2025-03-04', start_time: '07:00', end_time: '12:00' };
+
+  it('should group violations per employee and day', async () => {
+    const result = await tools('warn')('attendance_compliance_check')({
+      start_date: '2025-03-03',
+      end_date: '2025-03-03'
+    });
+
+    expect(result).toMatchObject({ rule_set: 'arbzg', employees_checked: 1, total_violations: 1 });
+    expect(result.employees).toEqual([{
+      employee_id: 42,
+      name: 'Anna Schmidt',
+      total_violations: 1,
+      days: [{ date: '2025-03-03', violations: [expect.objectContaining({ rule: 'break', required: 45 })] }]
+    }]);
+  });
+
+  it('should return violations of a new entry in warn mode', async () => {
+    const result = await tools('warn')('create_attendance')(early);
+
+    expect(result.compliance_violations).toEqual([
+      expect.objectContaining({ rule: 'min_rest', attendance_ids: [1], actual: 8 })
+    ]);
+  });
+
+  it('should refuse violating entries in block mode unless allowed', async () => {
+    created.length = 0;
+    await expect(tools('block')('create_attendance')(early)).rejects.toMatchObject({ code: 'COMPLIANCE_VIOLATION' });
+    expect(created).toHaveLength(0);
+
+    await tools('block')('create_attendance')({ ...early, allow_violations: true });
+    expect(created).toHaveLength(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { findAbsenceConflicts, findAttendanceConflicts } from '../src/utils/conflicts';
+
+function absence(id: number, start_date: string, end_date: string, overrides: any = {}): any {
+  return {
+    id,
+    status: 'approved',
+    start_date,
+    end_date,
+    half_day_start: false,
+    half_day_end: false,
+    time_off_type: { id: 1, name: 'Vacation', category: 'paid_vacation' },
+    ...overrides
+  };
+}
+
+function attendance(id: number, date: string, start_time: string, end_time: string): any {
+  return { id, employee: 1, date, start_time, end_time, break: 0 };
+}
+
+describe('findAbsenceConflicts', () => {
+  it('should report overlapping absences', () => {
+    const conflicts = findAbsenceConflicts({ start_date: '2025-03-05', end_date: '2025-03-10' }, [
+      absence(1, '2025-03-01', '2025-03-05'),
+      absence(2, '2025-03-11', '2025-03-12')
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        type: 'absence',
+        id: 1,
+        date_range: { start: '2025-03-01', end: '2025-03-05' },
+        status: 'approved',
+        description: 'Vacation from 2025-03-01 to 2025-03-05 (approved)'
+      }
+    ]);
+  });
+
+  it('should ignore rejected and canceled absences', () => {
+    const conflicts = findAbsenceConflicts({ start_date: '2025-03-05', end_date: '2025-03-05' }, [
+      absence(1, '2025-03-05', '2025-03-05', { status: 'rejected' }),
+      absence(2, '2025-03-05', '2025-03-05', { status: 'canceled' })
+    ]);
+
+    expect(conflicts).toEqual([]);
+  });
+
+  it('should allow complementary half days on the shared date', () => {
+    const existing = [absence(1, '2025-03-03', '2025-03-05', { half_day_end: true })];
+
+    expect(
+      findAbsenceConflicts(
+        { start_date: '2025-03-05', end_date: '2025-03-07', half_day_start: true },
+        existing
+      )
+    ).toEqual([]);
+    expect(
+      findAbsenceConflicts({ start_date: '2025-03-05', end_date: '2025-03-07' }, existing)
+    ).toHaveLength(1);
+  });
+});
+
+describe('findAttendanceConflicts', () => {
+  it('should report overlapping time ranges on the same date', () => {
+    const conflicts = findAttendanceConflicts(
+      { date: '2025-03-05', start_time: '12:00', end_time: '18:00' },
+      [
+        attendance(1, '2025-03-05', '08:00', '12:00'),
+        attendance(2, '2025-03-05', '11:30', '13:00'),
+        attendance(3, '2025-03-06', '12:00', '18:00')
+      ]
+    );
+
+    expect(conflicts.map((conflict) => conflict.id)).toEqual([2]);
+  });
+
+  it('should treat an end before the start as running past midnight', () => {
+    const conflicts = findAttendanceConflicts(
+      { date: '2025-03-05', start_time: '23:00', end_time: '01:00' },
+      [attendance(1, '2025-03-05', '22:00', '23:30')]
+    );
+
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it('should compare night shifts with the next day', () => {
+    const conflicts = findAttendanceConflicts(
+      { date: '2025-03-02', start_time: '05:00', end_time: '13:00' },
+      [attendance(1, '2025-03-01', '22:00', '06:00'), attendance(2, '2025-03-01', '22:00', '05:00')],
+      'Europe/Berlin'
+    );
+
+    expect(conflicts.map((conflict) => conflict.id)).toEqual([1]);
+  });
+});
\ No newline at end of file
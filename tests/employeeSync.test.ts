@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { EmployeeSync } from '../src/utils/employeeSync';
+import { EmployeeDirectory } from '../src/utils/directory';
+import { CacheManager } from '../src/utils/cache';
+
+const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+
+function employee(id: number, position: string, department = 'Engineering', status = 'active'): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: `Person${id}` },
+      last_name: { value: 'Test' },
+      status: { value: status },
+      position: { value: position },
+      department: { value: { attributes: { id: 1, name: department } } }
+    }
+  };
+}
+
+function setup(responses: any[][], options: any = { intervalMinutes: 5 }) {
+  const requests: any[] = [];
+  const client: any = {
+    getAllEmployees: async (params: any) => {
+      requests.push(params);
+      return responses.shift() ?? [];
+    }
+  };
+  const cache = new CacheManager();
+  const directory = new EmployeeDirectory(client, cache, rateLimiter);
+  const sync = new EmployeeSync(client, cache, rateLimiter, directory, options);
+  return { sync, directory, cache, requests };
+}
+
+describe('EmployeeSync', () => {
+  it('should load a baseline first and then fetch only updated employees', async () => {
+    const { sync, directory, requests } = setup([
+      [employee(1, 'Engineer'), employee(2, 'Designer')],
+      [employee(1, 'Senior Engineer', 'Platform'), employee(3, 'Recruiter', 'People')]
+    ]);
+
+    const baseline = await sync.sync();
+    const update = await sync.sync();
+
+    expect(baseline).toMatchObject({ baseline: true, fetched: 2, changes: [] });
+    expect(requests[0]).toEqual({});
+    expect(requests[1].updated_since).toBeDefined();
+    expect(new Date(requests[1].updated_since).getTime()).toBeLessThan(new Date(baseline.watermark).getTime());
+
+    expect(update.changes).toEqual([
+      expect.objectContaining({
+        employee_id: 1,
+        type: 'updated',
+        changes: {
+          position: { from: 'Engineer', to: 'Senior Engineer' },
+          department: { from: 'Engineering', to: 'Platform' }
+        }
+      }),
+      expect.objectContaining({ employee_id: 3, type: 'created', changes: {} })
+    ]);
+
+    const employees = await directory.getEmployees();
+    expect(employees.map((entry) => entry.attributes.position?.value)).toEqual([
+      'Senior Engineer',
+      'Designer',
+      'Recruiter'
+    ]);
+  });
+
+  it('should filter recorded changes by employee and attribute', async () => {
+    const { sync } = setup([
+      [employee(1, 'Engineer'), employee(2, 'Designer')],
+      [employee(1, 'Senior Engineer', 'Platform'), employee(2, 'Designer', 'Engineering', 'inactive')]
+    ]);
+    await sync.sync();
+    await sync.sync();
+
+    expect(sync.getChanges({ attributes: ['status'] })).toEqual([
+      expect.objectContaining({ employee_id: 2, changes: { status: { from: 'active', to: 'inactive' } } })
+    ]);
+    expect(sync.getChanges({ employee_id: 1 })).toHaveLength(1);
+    expect(sync.getChanges({ since: '2999-01-01T00:00:00Z' })).toEqual([]);
+  });
+
+  it('should drop cached profiles of updated employees', async () => {
+    const { sync, cache } = setup([[employee(1, 'Engineer')], [employee(1, 'Engineer')]]);
+    await sync.sync();
+    cache.set('resource:employees:1', { stale: true });
+
+    const result = await sync.sync();
+
+    expect(result.changes).toEqual([]);
+    expect(cache.has('resource:employees:1')).toBe(false);
+  });
+
+  it('should share a sync that is already running', async () => {
+    const { sync, requests } = setup([[employee(1, 'Engineer')]]);
+
+    await Promise.all([sync.sync(), sync.sync()]);
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should reload the directory in full once it is due and report removed employees', async () => {
+    const { sync, directory, requests } = setup([
+      [employee(1, 'Engineer'), employee(2, 'Designer')],
+      [employee(1, 'Senior Engineer')]
+    ], { intervalMinutes: 5, fullReloadHours: 0.0001 });
+    await sync.sync();
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    const result = await sync.sync();
+
+    expect(requests[1]).toEqual({});
+    expect(result).toMatchObject({ full_reload: true, fetched: 1 });
+    expect(result.changes).toEqual([
+      expect.objectContaining({ employee_id: 1, type: 'updated' }),
+      expect.objectContaining({ employee_id: 2, type: 'removed' })
+    ]);
+    expect(sync.getChanges({ attributes: ['position'] }).map((record) => record.type)).toEqual(['updated', 'removed']);
+    expect((await directory.getEmployees()).map((entry) => entry.attributes.id.value)).toEqual([1]);
+  });
+});
\ No newline at end of file
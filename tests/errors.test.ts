@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { PersonioMCPError, formatError, validationErrorFromZod } from '../src/utils/errors';
+
+const schema = z.object({
+  employee_id: z.number(),
+  status: z.enum(['approved', 'pending']).optional(),
+  limit: z.number().max(50).optional()
+});
+
+describe('validationErrorFromZod', () => {
+  it('should list each invalid field with the problem and expected type', () => {
+    const result = schema.safeParse({ employee_id: 'abc', status: 'open', limit: 100 });
+    if (result.success) throw new Error('expected validation to fail');
+
+    const error = validationErrorFromZod(result.error, 'list_absences');
+
+    expect(error).toBeInstanceOf(PersonioMCPError);
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.message).toBe('Invalid arguments for list_absences: employee_id, status, limit');
+    expect(error.details.issues).toEqual([
+      expect.objectContaining({ field: 'employee_id', expected: 'number', received: 'string' }),
+      expect.objectContaining({ field: 'status', expected: 'one of "approved", "pending"' }),
+      expect.objectContaining({ field: 'limit', expected: 'number <= 50' })
+    ]);
+  });
+});
+
+describe('formatError', () => {
+  it('should map raw zod errors to VALIDATION_ERROR', () => {
+    const result = schema.safeParse({});
+    if (result.success) throw new Error('expected validation to fail');
+
+    const formatted = formatError(result.error);
+
+    expect(formatted.code).toBe('VALIDATION_ERROR');
+    expect(formatted.details.issues[0]).toMatchObject({
+      field: 'employee_id',
+      expected: 'number',
+      received: 'undefined'
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { describe, it, expect } from '@jest/globals';
+import { employmentPeriod, headcountTrend, headcountTrends } from '../src/utils/headcount';
+import { EmployeeDirectory } from '../src/utils/directory';
+import { OrganizationResources } from '../src/resources/organization';
+import { CacheManager } from '../src/utils/cache';
+
+function employee(
+  id: number,
+  department: string,
+  hireDate?: string,
+  terminationDate?: string,
+  status = 'active'
+): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: `Person${id}` },
+      last_name: { value: 'Test' },
+      status: { value: status },
+      department: { value: { attributes: { id: 1, name: department } } },
+      hire_date: { value: hireDate ? `${hireDate}T00:00:00+01:00` : null },
+      termination_date: { value: terminationDate ? `${terminationDate}T00:00:00+01:00` : null }
+    }
+  };
+}
+
+const employees = [
+  employee(1, 'Engineering', '2015-03-01'),
+  employee(2, 'Engineering', '2022-06-15'),
+  employee(3, 'Engineering', '2024-02-01'),
+  employee(4, 'Sales', '2021-01-01', '2024-02-29', 'inactive'),
+  employee(5, 'Sales', '2023-11-01'),
+  employee(6, 'Sales', '2019-01-01', undefined, 'inactive')
+];
+
+describe('employmentPeriod', () => {
+  it('should read dates and skip inactive employees without a termination date', () => {
+    expect(employmentPeriod(employees[3])).toEqual({ hire_date: '2021-01-01', termination_date: '2024-02-29' });
+    expect(employmentPeriod(employees[5])).toBeNull();
+  });
+});
+
+describe('headcountTrend', () => {
+  it('should count headcount, hires and leavers per month', () => {
+    const periods = employees.map(employmentPeriod).filter((period) => period !== null) as any[];
+    const trend = headcountTrend(periods, '2024-01', '2024-03');
+
+    expect(trend.months).toEqual([
+      { month: '2024-01', headcount_start: 4, headcount_end: 4, hires: 0, leavers: 0, attrition_rate: 0 },
+      { month: '2024-02', headcount_start: 4, headcount_end: 4, hires: 1, leavers: 1, attrition_rate: 25 },
+      { month: '2024-03', headcount_start: 4, headcount_end: 4, hires: 0, leavers: 0, attrition_rate: 0 }
+    ]);
+    expect(trend.totals).toMatchObject({
+      hires: 1,
+      leavers: 1,
+      net_change: 0,
+      average_headcount: 4,
+      attrition_rate: 25,
+      annualized_attrition_rate: 100
+    });
+  });
+
+  it('should bucket the tenure of everyone employed at the end of the window', () => {
+    const trend = headcountTrend([
+      { hire_date: '2015-03-01' },
+      { hire_date: '2022-06-15' },
+      { hire_date: '2024-02-01' },
+      {},
+      { hire_date: '2020-01-01', termination_date: '2023-12-31' }
+    ], '2024-03', '2024-03');
+
+    expect(trend.tenure.as_of).toBe('2024-03-31');
+    expect(trend.tenure.distribution).toEqual({
+      under_1_year: 1,
+      '1_to_2_years': 1,
+      '2_to_5_years': 0,
+      '5_to_10_years': 1,
+      '10_years_plus': 0,
+      unknown: 1
+    });
+  });
+});
+
+describe('headcountTrends', () => {
+  it('should split the trend by department', () => {
+    const { company, departments, excluded } = headcountTrends(employees, '2024-02', '2024-02');
+
+    expect(company.totals).toMatchObject({ hires: 1, leavers: 1 });
+    expect(Object.keys(departments)).toEqual(['Engineering', 'Sales']);
+    expect(departments.Engineering.totals.hires).toBe(1);
+    expect(departments.Sales.totals.leavers).toBe(1);
+    expect(excluded).toBe(1);
+  });
+});
+
+describe('OrganizationResources headcount trends', () => {
+  const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+  directory.getEmployees = async () => employees;
+  const resources = new OrganizationResources(directory, new CacheManager());
+
+  it('should read trends for a window of months', async () => {
+    const result = await resources.handleResourceRead('personio://organization/headcount/2024-01/2024-03');
+
+    expect(result.trends.company.months).toHaveLength(3);
+    expect(result.trends.by_department.Sales.totals.leavers).toBe(1);
+  });
+
+  it('should reject backwards windows', async () => {
+    await expect(
+      resources.handleResourceRead('personio://organization/headcount/2024-03/2024-01')
+    ).rejects.toThrow('Headcount window must run forwards');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { describe, it, expect } from '@jest/globals';
+import { easterSunday, getPublicHolidays, parseRegion } from '../src/utils/holidays';
+import { formatDate } from '../src/utils/dates';
+
+function datesOf(year: number, region: string): Record<string, string> {
+  return Object.fromEntries(getPublicHolidays(year, region).map((holiday) => [holiday.name, holiday.date]));
+}
+
+describe('holiday engine', () => {
+  it('should compute Easter Sunday', () => {
+    expect(formatDate(easterSunday(2024))).toBe('2024-03-31');
+    expect(formatDate(easterSunday(2025))).toBe('2025-04-20');
+    expect(formatDate(easterSunday(2026))).toBe('2026-04-05');
+  });
+
+  it('should derive movable feasts from Easter', () => {
+    const holidays = datesOf(2025, 'DE');
+
+    expect(holidays['Good Friday']).toBe('2025-04-18');
+    expect(holidays['Easter Monday']).toBe('2025-04-21');
+    expect(holidays['Ascension Day']).toBe('2025-05-29');
+    expect(holidays['Whit Monday']).toBe('2025-06-09');
+  });
+
+  it('should only include regional holidays for the matching federal state', () => {
+    expect(datesOf(2025, 'DE')['Corpus Christi']).toBeUndefined();
+    expect(datesOf(2025, 'DE-BY')['Corpus Christi']).toBe('2025-06-19');
+    expect(datesOf(2025, 'DE-BY')['Reformation Day']).toBeUndefined();
+    expect(datesOf(2025, 'DE-HH')['Reformation Day']).toBe('2025-10-31');
+    expect(datesOf(2025, 'DE-SN')['Day of Prayer and Repentance']).toBe('2025-11-19');
+  });
+
+  it('should respect the years a holiday was observed', () => {
+    expect(datesOf(2017, 'DE')['Reformation Day']).toBe('2017-10-31');
+    expect(datesOf(2016, 'DE-HH')['Reformation Day']).toBeUndefined();
+    expect(datesOf(2018, 'DE-BE')["International Women's Day"]).toBeUndefined();
+  });
+
+  it('should add substitute days for UK bank holidays on weekends', () => {
+    const holidays = datesOf(2021, 'GB');
+
+    expect(holidays['Christmas Day (substitute day)']).toBe('2021-12-27');
+    expect(holidays['Boxing Day (substitute day)']).toBe('2021-12-28');
+  });
+
+  it('should reject unsupported regions', () => {
+    expect(() => parseRegion('XX')).toThrow('Unsupported holiday region: XX');
+    expect(() => parseRegion('DE-XX')).toThrow('Unsupported holiday region: DE-XX');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildOrgChart, reportingChain } from '../src/utils/orgChart';
+import { EmployeeDirectory } from '../src/utils/directory';
+import { OrganizationResources } from '../src/resources/organization';
+import { OrganizationTools } from '../src/tools/organization';
+import { CacheManager } from '../src/utils/cache';
+
+function employee(id: number, name: string, supervisor?: number): any {
+  const [firstName, lastName] = name.split(' ');
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: firstName },
+      last_name: { value: lastName },
+      status: { value: 'active' },
+      department: { value: { attributes: { id: 1, name: 'Engineering' } } },
+      ...(supervisor !== undefined && {
+        supervisor: { value: { attributes: { id: { value: supervisor } } } }
+      })
+    }
+  };
+}
+
+const employees = [
+  employee(1, 'Mara Klein'),
+  employee(2, 'Anna Schmidt', 1),
+  employee(3, 'Jonas Weber', 1),
+  employee(4, 'Lena Vogel', 2),
+  employee(5, 'Tim Roth', 2),
+  employee(6, 'Eva Brandt', 4)
+];
+
+function directoryWith(list: any[]): EmployeeDirectory {
+  const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+  directory.getOrgChart = async () => buildOrgChart(list);
+  directory.getEmployees = async () => list;
+  return directory;
+}
+
+describe('buildOrgChart', () => {
+  it('should build the tree from supervisor relationships', () => {
+    const chart = buildOrgChart(employees);
+
+    expect(chart.roots.map((node) => node.id)).toEqual([1]);
+    expect(chart.nodes.get(1)).toMatchObject({ depth: 0, span_of_control: 2, total_reports: 5 });
+    expect(chart.nodes.get(2)!.reports.map((node) => node.name)).toEqual(['Lena Vogel', 'Tim Roth']);
+    expect(chart.nodes.get(6)!.depth).toBe(3);
+    expect(chart.metrics).toEqual({
+      employees: 6,
+      managers: 3,
+      max_depth: 3,
+      max_span_of_control: 2,
+      average_span_of_control: 1.7
+    });
+  });
+
+  it('should report orphans and break supervisor cycles', () => {
+    const chart = buildOrgChart([
+      employee(1, 'Mara Klein'),
+      employee(2, 'Anna Schmidt', 99),
+      employee(3, 'Jonas Weber', 4),
+      employee(4, 'Lena Vogel', 3),
+      employee(5, 'Tim Roth', 4)
+    ]);
+
+    expect(chart.orphans).toEqual([{ id: 2, name: 'Anna Schmidt', supervisor_id: 99 }]);
+    expect(chart.cycles).toEqual([[3, 4]]);
+    expect(chart.roots.map((node) => node.id)).toEqual([2, 3, 1]);
+    expect(chart.nodes.get(3)!.total_reports).toBe(2);
+    expect(reportingChain(chart, 5).map((node) => node.id)).toEqual([4, 3]);
+  });
+});
+
+describe('OrganizationResources reporting lines', () => {
+  const resources = new OrganizationResources(directoryWith(employees), new CacheManager(), { name: 'Acme' });
+
+  it('should add the reporting-line tree to the structure', async () => {
+    const structure = await resources.handleResourceRead('personio://organization/structure');
+
+    expect(structure.organization.name).toBe('Acme');
+    expect(structure.reporting_lines.tree[0]).toMatchObject({ id: 1, total_reports: 5 });
+    expect(structure.reporting_lines.metrics.max_depth).toBe(3);
+  });
+
+  it('should read the reports of a manager', async () => {
+    const reports = await resources.handleResourceRead('personio://organization/reports/2');
+
+    expect(reports.manager).toMatchObject({ id: 2, span_of_control: 2, total_reports: 3 });
+    expect(reports.reporting_chain.map((node: any) => node.id)).toEqual([1]);
+    expect(reports.direct_reports.map((node: any) => node.id)).toEqual([4, 5]);
+    expect(reports.indirect_reports).toEqual([
+      expect.objectContaining({ id: 6, supervisor_id: 4, level: 2 })
+    ]);
+  });
+});
+
+describe('OrganizationTools', () => {
+  const tools = new OrganizationTools(directoryWith(employees)).getTools();
+  const call = (name: string, args: any) => tools.find((tool) => tool.name === name)!.handler(args);
+
+  it('should list direct and indirect reports', async () => {
+    const direct = await call('list_direct_reports', { manager_id: 1 });
+    const all = await call('list_direct_reports', { manager_id: 1, include_indirect: true });
+
+    expect(direct.direct_reports.map((node: any) => node.id)).toEqual([2, 3]);
+    expect(direct.total).toBe(2);
+    expect(all.indirect_reports.map((node: any) => node.id)).toEqual([4, 5, 6]);
+    expect(all.total).toBe(5);
+  });
+
+  it('should require a manager', async () => {
+    await expect(call('list_direct_reports', {})).rejects.toThrow('Provide a manager_id or a manager_name');
+  });
+});
\ No newline at end of file
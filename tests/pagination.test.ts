@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { PersonioClient } from '../src/api/client';
+
+function employee(id: number) {
+  return { type: 'Employee', attributes: { id: { label: 'ID', value: id, type: 'integer' } } };
+}
+
+describe('PersonioClient pagination', () => {
+  let client: PersonioClient;
+  let get: jest.Mock<(...args: any[]) => Promise<any>>;
+
+  beforeEach(() => {
+    client = new PersonioClient({ apiKey: 'test-api-key' });
+    get = jest.fn(async (_path: string, config: any) => {
+      const { limit, offset } = config.params;
+      const ids = Array.from({ length: 5 }, (_, i) => i + 1).slice(offset, offset + limit);
+      return {
+        data: {
+          success: true,
+          data: ids.map(employee),
+          metadata: { total_elements: 5, current_page: offset / limit, total_pages: Math.ceil(5 / limit) }
+        }
+      };
+    });
+    (client as any).axios = { get };
+  });
+
+  it('should report totals and the next offset for a single page', async () => {
+    const page = await client.getEmployeesPage({ limit: 2, offset: 2 });
+
+    expect(page.data).toHaveLength(2);
+    expect(page.total_elements).toBe(5);
+    expect(page.next_offset).toBe(4);
+  });
+
+  it('should follow pages until every employee is loaded', async () => {
+    const employees = await client.getAllEmployees({}, { pageSize: 2 });
+
+    expect(employees.map((emp) => emp.attributes.id.value)).toEqual([1, 2, 3, 4, 5]);
+    expect(get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at the maximum item count', async () => {
+    const employees = await client.getAllEmployees({}, { pageSize: 2, maxItems: 3 });
+
+    expect(employees).toHaveLength(3);
+    expect(get).toHaveBeenCalledTimes(2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { describe, it, expect } from '@jest/globals';
+import { PromptRegistry } from '../src/prompts/registry';
+import { AbsencePrompts } from '../src/prompts/absences';
+import { ReviewPrompts } from '../src/prompts/reviews';
+import { LifecyclePrompts } from '../src/prompts/lifecycle';
+import { AttendancePrompts } from '../src/prompts/attendance';
+import { PolicyPrompts } from '../src/prompts/policies';
+import { EmployeeDirectory } from '../src/utils/directory';
+import { parsePeriod } from '../src/utils/dates';
+
+function employee(id: number, firstName: string, lastName: string): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: firstName },
+      last_name: { value: lastName },
+      email: { value: `${firstName.toLowerCase()}@example.com` },
+      department: { value: { attributes: { id: 1, name: 'Engineering' } } },
+      position: { value: 'Backend Engineer' }
+    }
+  };
+}
+
+function directoryOf(employees: any[]): EmployeeDirectory {
+  const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+  directory.getEmployees = async () => employees;
+  return directory;
+}
+
+const tools: any = {
+  call: async (name: string) =>
+    name === 'get_absence_types'
+      ? { absence_types: [{ id: 7, name: 'Vacation', unit: 'day', half_day_requests_enabled: true }] }
+      : [{ id: 7, name: 'Vacation', balance: 12 }]
+};
+
+describe('PromptRegistry', () => {
+  it('should derive prompt arguments from the zod schema', () => {
+    const registry = new PromptRegistry();
+    registry.register(...new AbsencePrompts(directoryOf([]), tools).getPrompts());
+
+    const [prompt] = registry.list();
+    expect(prompt.name).toBe('absence_request');
+    expect(prompt.arguments).toContainEqual({
+      name: 'employee_name',
+      description: 'Name of the employee',
+      required: true
+    });
+    expect(prompt.arguments).toContainEqual({
+      name: 'reason',
+      description: 'Reason for absence',
+      required: false
+    });
+  });
+
+  it('should reject unknown prompts and missing arguments', async () => {
+    const registry = new PromptRegistry();
+    registry.register(...new AbsencePrompts(directoryOf([]), tools).getPrompts());
+
+    await expect(registry.get('vacation')).rejects.toMatchObject({ code: 'UNKNOWN_PROMPT' });
+    await expect(registry.get('absence_request', { employee_name: 'Anna' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR'
+    });
+  });
+
+  it('should render absence_request with balances and absence types', async () => {
+    const registry = new PromptRegistry();
+    const directory = directoryOf([employee(1, 'Anna', 'Schmidt'), employee(2, 'Annabel', 'Meyer')]);
+    registry.register(...new AbsencePrompts(directory, tools).getPrompts());
+
+    const result = await registry.get('absence_request', {
+      employee_name: 'anna schmidt',
+      start_date: '2025-03-03',
+      end_date: '2025-03-07'
+    });
+
+    const text = (result.messages[0].content as any).text;
+    expect(result.messages[0].role).toBe('user');
+    expect(text).toContain('Anna Schmidt (employee ID 1, Engineering)');
+    expect(text).toContain('- Vacation (ID 7): 12');
+    expect(text).toContain('time_off_type_id 7');
+    expect(text).not.toContain('Other employees');
+  });
+
+  it('should render performance_review with an attendance summary', async () => {
+    const client: any = {
+      getAllAttendances: async () => [
+        { date: '2025-01-06', start_time: '09:00', end_time: '17:30', break: 30 },
+        { date: '2025-01-07', start_time: '08:00', end_time: '12:00', break: 0 }
+      ],
+      getAllAbsences: async () => [{ days_count: 2 }]
+    };
+    const registry = new PromptRegistry();
+    registry.register(
+      ...new ReviewPrompts(client, {} as any, directoryOf([employee(1, 'Anna', 'Schmidt')])).getPrompts()
+    );
+
+    const result = await registry.get('performance_review', {
+      employee_name: 'Anna',
+      review_period: 'Q1 2025'
+    });
+
+    const text = (result.messages[0].content as any).text;
+    expect(text).toContain('covering 2025-01-01 to 2025-03-31');
+    expect(text).toContain('- Position: Backend Engineer');
+    expect(text).toContain('- Recorded hours: 12 (average 6 per day)');
+    expect(text).toContain('- Approved absences: 1 (2 days)');
+  });
+});
+
+describe('HR workflow prompts', () => {
+  it('should declare completion sources for their arguments', () => {
+    const registry = new PromptRegistry();
+    registry.register(...new PolicyPrompts(directoryOf([]), tools, async () => ({})).getPrompts());
+
+    expect(registry.completionSource('leave_policy_question', 'employee_name')).toBe('employee');
+    expect(registry.completionSource('leave_policy_question', 'question')).toBeUndefined();
+  });
+
+  it('should list missing profile data and the manager in onboarding_checklist', async () => {
+    const manager = employee(1, 'Mara', 'Klein');
+    const hire = employee(2, 'Tom', 'Berg');
+    hire.attributes.supervisor = { value: { attributes: { id: { value: 1 } } } };
+    hire.attributes.hire_date = { value: '2025-04-01T00:00:00+02:00' };
+    const documentTools: any = {
+      call: async () => ({ categories: [{ id: 3, name: 'Contract', required: true }] })
+    };
+    const registry = new PromptRegistry();
+    registry.register(...new LifecyclePrompts(directoryOf([manager, hire]), documentTools).getPrompts());
+
+    const result = await registry.get('onboarding_checklist', { employee_name: 'Tom Berg' });
+
+    const text = (result.messages[0].content as any).text;
+    expect(text).toContain('- Manager: Mara Klein (ID 1)');
+    expect(text).toContain('- Start date: 2025-04-01');
+    expect(text).toContain('Missing profile data in Personio: weekly_working_hours, employment_type, office');
+    expect(text).toContain('- Contract (required)');
+  });
+
+  it('should compare recorded and expected hours in overtime_review', async () => {
+    const client: any = {
+      getAllAttendances: async () => [
+        { date: '2025-03-03', start_time: '08:00', end_time: '19:00', break: 30 },
+        { date: '2025-03-04', start_time: '09:00', end_time: '17:30', break: 30 }
+      ]
+    };
+    const holidayCalendar: any = { getHolidaysBetween: async () => [] };
+    const registry = new PromptRegistry();
+    registry.register(
+      ...new AttendancePrompts(
+        client,
+        {} as any,
+        directoryOf([employee(1, 'Anna', 'Schmidt')]),
+        holidayCalendar,
+        async () => ({ overtime: { monthly_limit: 20 } })
+      ).getPrompts()
+    );
+
+    const result = await registry.get('overtime_review', {
+      employee_name: 'Anna',
+      period: '2025-03-03 to 2025-03-04'
+    });
+
+    const text = (result.messages[0].content as any).text;
+    expect(text).toContain('- Expected hours: 16 over 2 working days');
+    expect(text).toContain('- Balance: +2.5 hours');
+    expect(text).toContain('- Days over 10 hours: 2025-03-03');
+    expect(result.messages[1].content).toMatchObject({
+      type: 'resource',
+      resource: { uri: 'personio://policies/working-hours' }
+    });
+  });
+});
+
+describe('parsePeriod', () => {
+  it('should understand years, months, quarters, halves and ranges', () => {
+    expect(parsePeriod('2024')).toEqual({ start_date: '2024-01-01', end_date: '2024-12-31' });
+    expect(parsePeriod('2024-02')).toEqual({ start_date: '2024-02-01', end_date: '2024-02-29' });
+    expect(parsePeriod('2025-Q4')).toEqual({ start_date: '2025-10-01', end_date: '2025-12-31' });
+    expect(parsePeriod('h1 2025')).toEqual({ start_date: '2025-01-01', end_date: '2025-06-30' });
+    expect(parsePeriod('2025-01-15 to 2025-02-15')).toEqual({
+      start_date: '2025-01-15',
+      end_date: '2025-02-15'
+    });
+  });
+
+  it('should return null for anything else', () => {
+    expect(parsePeriod('last year')).toBeNull();
+    expect(parsePeriod('H3 2025')).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { RateLimiter } from '../src/utils/rateLimiter';
+import { PersonioClient } from '../src/api/client';
+
+describe('RateLimiter', () => {
+  it('should map API paths to endpoint families', () => {
+    expect(RateLimiter.bucketForPath('/v1/company/documents')).toBe('documents');
+    expect(RateLimiter.bucketForPath('/v1/company/document-categories')).toBe('default');
+    expect(RateLimiter.bucketForPath('/v1/company/employees/1')).toBe('employees');
+    expect(RateLimiter.bucketForPath('/v1/company/time-offs')).toBe('absences');
+  });
+
+  it('should pause after a 429 response', () => {
+    const limiter = new RateLimiter();
+    limiter.updateFromHeaders('employees', { 'retry-after': '2' }, 429);
+
+    expect(limiter.getBudget('employees').remaining).toBe(0);
+    expect(limiter.getBudget('employees').reset_at).toBeDefined();
+    expect(limiter.getBudget().remaining).toBeUndefined();
+  });
+});
+
+describe('RateLimiter with the Personio client', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // Documents report a spent budget that resets shortly, employees a small one spread over
+    // four single-employee pages; everything else is unlimited
+    server = createServer((request, response) => {
+      request.resume();
+      const headers: Record<string, string> = { 'content-type': 'application/json' };
+      let body: object = { success: true, data: [] };
+      if (request.url?.startsWith('/v1/company/documents')) {
+        headers['x-ratelimit-remaining'] = '0';
+        headers['x-ratelimit-reset'] = '0.3';
+      } else if (request.url?.startsWith('/v1/company/employees')) {
+        headers['x-ratelimit-remaining'] = '3';
+        headers['x-ratelimit-reset'] = '0.6';
+        body = {
+          success: true,
+          data: [{ type: 'Employee', attributes: {} }],
+          metadata: { total_elements: 4 }
+        };
+      }
+      response.writeHead(200, headers);
+      response.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    jest.useRealTimers();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should route requests to the bucket of their path', async () => {
+    // Fake timers that follow the real clock, so the queues' one-minute windows do not outlive the test
+    jest.useFakeTimers({ advanceTimers: true, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const limiter = new RateLimiter(60, 15, { documents: {} });
+    const client = new PersonioClient({
+      apiKey: 'test',
+      baseUrl,
+      onRateLimitHeaders: (path, headers, status) =>
+        limiter.updateFromHeaders(RateLimiter.bucketForPath(path), headers, status),
+      schedule: (path, request) => limiter.executeForPath(path, request)
+    });
+
+    const upload = () => client.uploadDocument(1, 2, Buffer.from('scan'), 'scan.pdf');
+
+    await limiter.execute(upload);
+    expect(limiter.getBudget('documents').remaining).toBe(0);
+    expect(limiter.getBudget().remaining).toBeUndefined();
+
+    // The next document request waits for the reset, other endpoints do not
+    const otherStarted = Date.now();
+    await limiter.execute(() => client.getDocumentCategories());
+    expect(Date.now() - otherStarted).toBeLessThan(150);
+
+    const started = Date.now();
+    await limiter.execute(upload);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+  });
+
+  it('should pace the pages of a fetch on an unconfigured endpoint family', async () => {
+    jest.useFakeTimers({ advanceTimers: true, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+    const limiter = new RateLimiter();
+    const client = new PersonioClient({
+      apiKey: 'test',
+      baseUrl,
+      onRateLimitHeaders: (path, headers, status) =>
+        limiter.updateFromHeaders(RateLimiter.bucketForPath(path), headers, status),
+      schedule: (path, request) => limiter.executeForPath(path, request)
+    });
+
+    // One tool call, four pages: the last three are spread over the reported window
+    const started = Date.now();
+    const employees = await limiter.execute(() => client.getAllEmployees({}, { pageSize: 1 }));
+
+    expect(employees).toHaveLength(4);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(400);
+    expect(limiter.getBudget('employees').remaining).toBe(3);
+    expect(limiter.getBudget().remaining).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import { ToolRegistry, defineTool } from '../src/tools/registry';
+import { EmployeeTools } from '../src/tools/employees';
+import { AbsenceTools } from '../src/tools/absences';
+import { AttendanceTools } from '../src/tools/attendance';
+import { DocumentTools } from '../src/tools/documents';
+
+const echoTool = defineTool({
+  name: 'echo',
+  description: 'Echo the given value',
+  schema: z.object({ value: z.string() }),
+  handler: async (params) => params.value
+});
+
+describe('ToolRegistry', () => {
+  it('should dispatch on the exact tool name with parsed params', async () => {
+    const registry = new ToolRegistry();
+    registry.register(echoTool);
+
+    await expect(registry.call('echo', { value: 'hello' })).resolves.toBe('hello');
+  });
+
+  it('should reject unknown tools', async () => {
+    const registry = new ToolRegistry();
+    registry.register(echoTool);
+
+    await expect(registry.call('echo_more', {})).rejects.toThrow('Unknown tool: echo_more');
+  });
+
+  it('should reject invalid arguments with a VALIDATION_ERROR', async () => {
+    const registry = new ToolRegistry();
+    registry.register(echoTool);
+
+    await expect(registry.call('echo', { value: 42 })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { issues: [{ field: 'value', expected: 'string', received: 'number' }] }
+    });
+  });
+
+  it('should reject duplicate registrations', () => {
+    const registry = new ToolRegistry();
+    registry.register(echoTool);
+
+    expect(() => registry.register(echoTool)).toThrow('Tool registered more than once: echo');
+  });
+
+  it('should derive the advertised inputSchema from the zod schema', () => {
+    const registry = new ToolRegistry();
+    registry.register(...new AbsenceTools({} as any, {} as any, {} as any, {} as any).getTools());
+
+    const listAbsences = registry.list().find((tool) => tool.name === 'list_absences')!;
+    expect(listAbsences.inputSchema).toMatchObject({
+      type: 'object',
+      properties: {
+        start_date: { type: 'string', format: 'date' },
+        status: { enum: ['approved', 'pending', 'rejected', 'canceled'] },
+        limit: { type: 'integer', minimum: 1, maximum: 50, default: 50 }
+      }
+    });
+    expect(listAbsences.inputSchema).not.toHaveProperty('$schema');
+  });
+
+  it('should register every tool module without name clashes', () => {
+    const deps = [{} as any, {} as any, {} as any] as const;
+    const registry = new ToolRegistry();
+    registry.register(
+      ...new EmployeeTools(...deps, {} as any, {} as any).getTools(),
+      ...new AbsenceTools(...deps, {} as any).getTools(),
+      ...new AttendanceTools(...deps, {} as any, {} as any, async () => ({})).getTools(),
+      ...new DocumentTools(...deps).getTools()
+    );
+
+    expect(registry.list().map((tool) => tool.name)).toEqual(
+      expect.arrayContaining([
+        'get_employee',
+        'update_employee',
+        'get_employee_changes',
+        'delete_absence',
+        'get_absence_types',
+        'update_attendance',
+        'get_projects',
+        'list_document_categories',
+        'upload_document_base64'
+      ])
+    );
+  });
+});
\ No newline at end of file
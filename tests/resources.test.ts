@@ -0,0 +1,95 @@
+import { describe, it, expect } from '@jest/globals';
+import { EmployeeResources } from '../src/resources/employees';
+import { CacheManager } from '../src/utils/cache';
+import { EmployeeDirectory } from '../src/utils/directory';
+import { StatusResources } from '../src/resources/status';
+import { RateLimiter } from '../src/utils/rateLimiter';
+
+const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+
+function resourcesWith(client: any): EmployeeResources {
+  const cache = new CacheManager();
+  return new EmployeeResources(client, cache, rateLimiter, new EmployeeDirectory(client, cache, rateLimiter));
+}
+
+describe('EmployeeResources templates', () => {
+  it('should advertise the per-employee templates', () => {
+    const templates = resourcesWith({}).getResourceTemplates().map((template) => template.uriTemplate);
+
+    expect(templates).toEqual([
+      'personio://employees/{id}',
+      'personio://employees/{id}/absences',
+      'personio://employees/{id}/attendance/{month}',
+      'personio://employees/{id}/balance'
+    ]);
+  });
+
+  it('should read an employee profile with the supervisor', async () => {
+    const client = {
+      getEmployee: async (id: number) => ({
+        type: 'Employee',
+        attributes: {
+          id: { value: id },
+          first_name: { value: 'Anna' },
+          last_name: { value: 'Schmidt' },
+          position: { value: 'Engineer' },
+          hire_date: { value: '2021-04-01T00:00:00+02:00' },
+          supervisor: {
+            value: { attributes: { id: { value: 7 }, first_name: { value: 'Mara' }, last_name: { value: 'Klein' } } }
+          }
+        }
+      })
+    };
+
+    const profile = await resourcesWith(client).handleResourceRead('personio://employees/42');
+
+    expect(profile).toMatchObject({
+      id: 42,
+      name: 'Anna Schmidt',
+      position: 'Engineer',
+      supervisor: { id: 7, name: 'Mara Klein' },
+      hire_date: '2021-04-01T00:00:00+02:00'
+    });
+  });
+
+  it('should read a month of attendance for the requested range', async () => {
+    let requested: any;
+    const client = {
+      getAllAttendances: async (params: any) => {
+        requested = params;
+        return [{ id: 1, date: '2024-02-05', start_time: '09:00', end_time: '17:30', break: 30 }];
+      }
+    };
+
+    const result = await resourcesWith(client).handleResourceRead('personio://employees/42/attendance/2024-02');
+
+    expect(requested).toEqual({ employees: [42], start_date: '2024-02-01', end_date: '2024-02-29' });
+    expect(result.summary.total_hours).toBe(8);
+    expect(result.entries[0].hours).toBe(8);
+  });
+
+  it('should reject malformed employee URIs', async () => {
+    await expect(
+      resourcesWith({}).handleResourceRead('personio://employees/42/attendance/2024-13')
+    ).rejects.toThrow('Unknown employee resource');
+  });
+});
+
+describe('StatusResources', () => {
+  it('should report retries and rate-limit budgets', async () => {
+    const client: any = {
+      getRetryStats: () => ({ total_retries: 2, retries_by_status: { '503': 2 }, exhausted: 0 })
+    };
+    const limiter = new RateLimiter(60, 15, { documents: {} });
+    limiter.updateFromHeaders('documents', { 'x-ratelimit-remaining': '12', 'x-ratelimit-reset': '30' });
+
+    const status = await new StatusResources(client, limiter).handleResourceRead('personio://status/api');
+
+    expect(status.retries).toEqual({ total_retries: 2, retries_by_status: { '503': 2 }, exhausted: 0 });
+    expect(status.rate_limits).toMatchObject({
+      buckets: { default: {}, documents: { remaining: 12 } },
+      queued: 0,
+      running: 0
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import { AxiosError } from 'axios';
+import { PersonioClient } from '../src/api/client';
+import {
+  DEFAULT_READ_RETRY_POLICY,
+  computeBackoffDelay,
+  getRetryDelay,
+  isRetryableMethod,
+  parseRetryAfter
+} from '../src/api/retry';
+
+describe('retry policy helpers', () => {
+  it('should grow the backoff ceiling exponentially up to the maximum', () => {
+    const policy = { ...DEFAULT_READ_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(computeBackoffDelay(0, policy, () => 1)).toBe(100);
+    expect(computeBackoffDelay(3, policy, () => 1)).toBe(800);
+    expect(computeBackoffDelay(10, policy, () => 1)).toBe(1000);
+    expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(400);
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    expect(parseRetryAfter({ 'Retry-After': '5' }, now)).toBe(5000);
+    expect(parseRetryAfter({ 'retry-after': 'Wed, 01 Jan 2025 00:00:10 GMT' }, now)).toBe(10000);
+    expect(parseRetryAfter({}, now)).toBeUndefined();
+  });
+
+  it('should only use the rate-limit reset header for 429 responses', () => {
+    const headers = { 'x-ratelimit-reset': '7' };
+
+    expect(getRetryDelay(0, DEFAULT_READ_RETRY_POLICY, 429, headers)).toBe(7000);
+    expect(getRetryDelay(0, DEFAULT_READ_RETRY_POLICY, 503, headers, () => 0)).toBe(0);
+  });
+
+  it('should never retry POSTs without an idempotency key', () => {
+    expect(isRetryableMethod('get')).toBe(true);
+    expect(isRetryableMethod('patch')).toBe(true);
+    expect(isRetryableMethod('post', {})).toBe(false);
+    expect(isRetryableMethod('post', { 'Idempotency-Key': 'abc' })).toBe(true);
+  });
+});
+
+describe('PersonioClient retries', () => {
+  function clientWithResponses(statuses: number[]) {
+    const client = new PersonioClient({
+      apiKey: 'test-api-key',
+      retry: { reads: { baseDelayMs: 1 }, writes: { baseDelayMs: 1 } }
+    });
+    let calls = 0;
+    (client as any).axios.defaults.adapter = async (config: any) => {
+      const status = statuses[Math.min(calls++, statuses.length - 1)];
+      const response = { status, statusText: '', headers: {}, config, data: { success: true, data: [] } };
+      if (status >= 400) {
+        throw new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, {}, response as any);
+      }
+      return response;
+    };
+    return { client, calls: () => calls };
+  }
+
+  it('should retry reads on 5xx and count the retries', async () => {
+    const { client, calls } = clientWithResponses([503, 502, 200]);
+
+    await expect(client.getEmployees()).resolves.toEqual([]);
+    expect(calls()).toBe(3);
+    expect(client.getRetryStats()).toMatchObject({
+      total_retries: 2,
+      retries_by_status: { '503': 1, '502': 1 }
+    });
+  });
+
+  it('should not retry a POST without an idempotency key', async () => {
+    const { client, calls } = clientWithResponses([503, 200]);
+
+    await expect(
+      client.createAttendance({ employee: 1, date: '2025-01-01', start_time: '09:00', end_time: '17:00' })
+    ).rejects.toMatchObject({ statusCode: 503 });
+    expect(calls()).toBe(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { EmployeeSearchIndex, editDistance, foldVariants } from '../src/utils/search';
+
+function employee(
+  id: number,
+  firstName: string,
+  lastName: string,
+  department: string,
+  overrides: Record<string, any> = {}
+): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: firstName },
+      last_name: { value: lastName },
+      email: { value: `${firstName}.${lastName}@example.com`.toLowerCase() },
+      department: { value: { attributes: { id: 1, name: department } } },
+      position: { value: overrides.position ?? 'Engineer' },
+      status: { value: overrides.status ?? 'active' }
+    }
+  };
+}
+
+const index = new EmployeeSearchIndex([
+  employee(1, 'Jürgen', 'Müller', 'Engineering'),
+  employee(2, 'Anna', 'Schmidt', 'Sales', { position: 'Account Executive' }),
+  employee(3, 'Annika', 'Schmitt', 'Engineering', { status: 'inactive' }),
+  employee(4, 'Sam', 'Berger', 'Anna Sales Team')
+]);
+
+const ids = (query: string, filters = {}) =>
+  index.search(query, filters).results.map((result) => result.employee.attributes.id.value);
+
+describe('foldVariants', () => {
+  it('should offer transliterated and stripped spellings', () => {
+    expect(foldVariants('Müller')).toEqual(['mueller', 'muller']);
+    expect(foldVariants('Zoë')).toEqual(['zoe']);
+  });
+});
+
+describe('editDistance', () => {
+  it('should count transpositions as one edit', () => {
+    expect(editDistance('schmidt', 'schmdit')).toBe(1);
+    expect(editDistance('anna', 'anne')).toBe(1);
+    expect(editDistance('kitten', 'sitting', 1)).toBe(2);
+  });
+});
+
+describe('EmployeeSearchIndex', () => {
+  it('should find umlaut names with either spelling', () => {
+    expect(ids('Mueller')).toEqual([1]);
+    expect(ids('muller')).toEqual([1]);
+    expect(ids('Jürgen Müller')).toEqual([1]);
+  });
+
+  it('should tolerate typos and rank closer matches first', () => {
+    const { results } = index.search('Schmit');
+
+    expect(results.map((result) => result.employee.attributes.id.value)).toEqual([3, 2]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('should match initials', () => {
+    expect(ids('A.S.')).toEqual([2, 3]);
+    expect(ids('jm')).toEqual([1]);
+  });
+
+  it('should weight names above departments', () => {
+    const { results } = index.search('anna');
+
+    expect(results[0].employee.attributes.id.value).toBe(2);
+    expect(results[0].matched_fields).toEqual(['name']);
+    expect(results.find((result) => result.employee.attributes.id.value === 4)?.matched_fields).toEqual([
+      'department'
+    ]);
+  });
+
+  it('should give the exact full name the top score', () => {
+    expect(index.search('anna schmidt').results[0]).toMatchObject({ score: 1 });
+  });
+
+  it('should apply department, position and status filters', () => {
+    expect(ids('schmidt', { department: 'engineering' })).toEqual([3]);
+    expect(ids('schmidt', { status: 'active' })).toEqual([2]);
+    expect(ids('anna', { position: 'account' })).toEqual([2]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  SnapshotService,
+  SnapshotStore,
+  diffEmployee,
+  diffSnapshots,
+  snapshotEmployee,
+  snapshotHeadcount,
+  snapshotId
+} from '../src/utils/snapshots';
+import { SnapshotResources } from '../src/resources/snapshots';
+import { SnapshotTools } from '../src/tools/snapshots';
+import { ToolRegistry } from '../src/tools/registry';
+
+function employee(id: number, department: string, position: string, status = 'active'): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: `Person${id}` },
+      last_name: { value: 'Test' },
+      status: { value: status },
+      position: { value: position },
+      department: { value: { attributes: { id: 1, name: department } } }
+    }
+  };
+}
+
+function snapshot(takenAt: string, employees: any[], absences: any[] = []): any {
+  return {
+    id: snapshotId(takenAt),
+    taken_at: takenAt,
+    window: { start_date: '2024-10-01', end_date: '2025-12-31' },
+    employees,
+    absences,
+    attendances: []
+  };
+}
+
+const january = snapshot('2025-01-01T06:00:00.000Z', [
+  employee(1, 'Engineering', 'Engineer'),
+  employee(2, 'Sales', 'Account Executive'),
+  employee(3, 'Sales', 'SDR', 'inactive')
+], [{ id: 10, status: 'pending', start_date: '2025-02-03', end_date: '2025-02-07', employee: { id: 1 } }]);
+
+const february = snapshot('2025-02-01T06:00:00.000Z', [
+  employee(1, 'Engineering', 'Senior Engineer'),
+  employee(2, 'Engineering', 'Account Executive'),
+  employee(4, 'Sales', 'SDR')
+], [{ id: 10, status: 'approved', start_date: '2025-02-03', end_date: '2025-02-07', employee: { id: 1 } }]);
+
+describe('snapshot analytics', () => {
+  it('should count active headcount by department', () => {
+    expect(snapshotHeadcount(january)).toMatchObject({
+      active_headcount: 2,
+      by_department: { Engineering: 1, Sales: 1 },
+      by_status: { active: 2, inactive: 1 }
+    });
+    expect(snapshotHeadcount(january, 'sales').active_headcount).toBe(1);
+  });
+
+  it('should diff employees and absences between snapshots', () => {
+    const diff = diffSnapshots(january, february);
+
+    expect(diff.employees.added.map((entry) => entry.id)).toEqual([4]);
+    expect(diff.employees.removed.map((entry) => entry.id)).toEqual([3]);
+    expect(diff.employees.changed).toEqual([
+      { id: 1, name: 'Person1 Test', changes: { position: { from: 'Engineer', to: 'Senior Engineer' } } },
+      { id: 2, name: 'Person2 Test', changes: { department: { from: 'Sales', to: 'Engineering' } } }
+    ]);
+    expect(diff.absences.status_changed).toEqual([
+      expect.objectContaining({ id: 10, status: 'approved', previous_status: 'pending' })
+    ]);
+  });
+
+  it('should store only the attributes snapshots compare', () => {
+    const profile = employee(1, 'Engineering', 'Engineer');
+    profile.attributes.fix_salary = { value: 85000 };
+    profile.attributes.supervisor = {
+      value: { type: 'Employee', attributes: { id: { value: 9 }, fix_salary: { value: 120000 } } }
+    };
+
+    const stored = snapshotEmployee(profile);
+
+    expect(Object.keys(stored.attributes).sort()).toEqual(
+      ['department', 'first_name', 'id', 'last_name', 'position', 'status', 'supervisor']
+    );
+    expect(stored.attributes.supervisor).toEqual({ value: { type: 'Employee', attributes: { id: { value: 9 } } } });
+    expect(diffEmployee(profile, stored)).toEqual({});
+  });
+});
+
+describe('SnapshotStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'personio-snapshots-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should resolve dates to the last snapshot taken by then', async () => {
+    const store = new SnapshotStore(directory);
+    await store.save(february);
+    await store.save(january);
+
+    expect((await store.list()).map((entry) => entry.id)).toEqual([january.id, february.id]);
+    expect((await store.resolve('2025-01-15')).id).toBe(january.id);
+    expect((await store.resolve('2025-02-01')).id).toBe(february.id);
+    expect((await store.resolve()).id).toBe(february.id);
+    await expect(store.resolve('2024-12-31')).rejects.toThrow('No snapshot was taken on or before 2024-12-31');
+  });
+
+  it('should drop the oldest snapshots beyond the retention', async () => {
+    const store = new SnapshotStore(directory, 1);
+    await store.save(january);
+    await store.save(february);
+
+    expect((await store.list()).map((entry) => entry.id)).toEqual([february.id]);
+    await expect(store.load(january.id)).rejects.toThrow('not found');
+  });
+
+  it('should keep every snapshot saved at the same time in the index', async () => {
+    const store = new SnapshotStore(directory);
+    await Promise.all([store.save(february), store.save(january)]);
+
+    expect((await store.list()).map((entry) => entry.id)).toEqual([january.id, february.id]);
+  });
+
+  it('should reject IDs that are not snapshot IDs', async () => {
+    await expect(new SnapshotStore(directory).load('../secrets')).rejects.toThrow('Invalid snapshot ID');
+  });
+
+  it('should serve snapshot summaries as resources without Personio', async () => {
+    const store = new SnapshotStore(directory);
+    await store.save(january);
+    const resources = new SnapshotResources(store);
+
+    const summary = await resources.handleResourceRead('personio://snapshots/2025-01-20');
+
+    expect(summary).toMatchObject({ id: january.id, employees: 3, absences: 1 });
+    expect(summary.headcount.active_headcount).toBe(2);
+  });
+
+  it('should validate the snapshot references of compare_snapshots', async () => {
+    const registry = new ToolRegistry();
+    registry.register(...new SnapshotTools(new SnapshotStore(directory), {} as any).getTools());
+
+    await expect(registry.call('compare_snapshots', { from: 'yesterday' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { issues: [{ field: 'from' }] }
+    });
+    await expect(registry.call('compare_snapshots', { from: '2025-01-01', to: '2025-13-01' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: { issues: [{ field: 'to' }] }
+    });
+  });
+
+  it('should validate the date of headcount_at', async () => {
+    const store = new SnapshotStore(directory);
+    await store.save(january);
+    const registry = new ToolRegistry();
+    registry.register(...new SnapshotTools(store, {} as any).getTools());
+
+    await expect(registry.call('headcount_at', { date: 'last week' })).rejects.toMatchObject({
+      code: 'VALIDATION_ERROR'
+    });
+    await expect(registry.call('headcount_at', { date: '2025-01-01T08:00:00+02:00' })).resolves.toMatchObject({
+      snapshot: { id: january.id }
+    });
+  });
+
+  it('should capture at startup only when the latest snapshot is older than the interval', async () => {
+    const store = new SnapshotStore(directory);
+    const client: any = {
+      getAllEmployees: async () => [employee(1, 'Engineering', 'Engineer')],
+      getAllAbsences: async () => [],
+      getAllAttendances: async () => []
+    };
+    const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+    const service = new SnapshotService(client, rateLimiter, store, { intervalMinutes: 60 });
+
+    await store.save(january);
+    await service.start();
+    service.stop();
+    expect(await store.list()).toHaveLength(2);
+
+    await service.start();
+    service.stop();
+    expect(await store.list()).toHaveLength(2);
+  });
+});
\ No newline at end of file
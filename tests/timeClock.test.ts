@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionStore } from '../src/utils/sessions';
+import { TimeClockTools } from '../src/tools/timeClock';
+import { AttendanceResources } from '../src/resources/attendance';
+import { EmployeeDirectory } from '../src/utils/directory';
+
+const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+
+// Only Date is faked; the store still needs real timers for file I/O
+function setClock(instant: string) {
+  jest.useFakeTimers({
+    now: new Date(instant),
+    doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'queueMicrotask', 'clearTimeout', 'clearInterval', 'clearImmediate']
+  });
+}
+
+describe('time clock', () => {
+  let directory: string;
+  let store: SessionStore;
+  let attendances: any[];
+  let created: any[];
+  let updated: any[];
+  let failCreate: boolean;
+  let handler: (name: string) => (params: any) => Promise<any>;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'personio-sessions-'));
+    store = new SessionStore(directory);
+    attendances = [];
+    created = [];
+    updated = [];
+    failCreate = false;
+    const client: any = {
+      getAllAttendances: async () => attendances,
+      createAttendance: async (data: any) => {
+        if (failCreate) throw new Error('Personio is unavailable');
+        created.push(data);
+        return { id: 11, ...data };
+      },
+      updateAttendance: async (id: number, data: any) => {
+        updated.push({ id, data });
+        return { id, ...data };
+      }
+    };
+    const employees = new EmployeeDirectory({} as any, {} as any, {} as any);
+    employees.getEmployees = async () => [{
+      type: 'Employee',
+      attributes: { id: { value: 42 }, first_name: { value: 'Anna' }, last_name: { value: 'Schmidt' } }
+    } as any];
+    const tools = new TimeClockTools(client, rateLimiter, employees, store, { timeZone: 'Europe/Berlin' }).getTools();
+    handler = (name) => tools.find((tool) => tool.name === name)!.handler;
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should record a session with its breaks on clock-out', async () => {
+    setClock('2025-01-15T07:02:00Z');
+    await handler('clock_in')({ employee_id: 42 });
+    setClock('2025-01-15T11:00:00Z');
+    await handler('start_break')({ employee_id: 42 });
+    setClock('2025-01-15T11:45:00Z');
+    await handler('end_break')({ employee_id: 42 });
+
+    const resource = await new AttendanceResources(store).handleResourceRead('personio://attendance/current-sessions');
+    expect(resource.sessions).toEqual([
+      expect.objectContaining({ name: 'Anna Schmidt', status: 'working', clocked_in: '08:02', break_minutes: 45 })
+    ]);
+
+    setClock('2025-01-15T16:30:00Z');
+    const result = await handler('clock_out')({ employee_id: 42 });
+
+    expect(created).toEqual([
+      expect.objectContaining({ employee: 42, date: '2025-01-15', start_time: '08:02', end_time: '17:30', break: 45 })
+    ]);
+    expect(result.attendance).toMatchObject({ id: 11, worked_minutes: 523 });
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should keep sessions across restarts and refuse a second clock-in', async () => {
+    setClock('2025-01-15T21:00:00Z');
+    await handler('clock_in')({ employee_id: 42, time: '21:30' });
+
+    expect(await new SessionStore(directory).get(42)).toMatchObject({ clocked_in_at: '2025-01-15T20:30:00.000Z' });
+    await expect(handler('clock_in')({ employee_id: 42 })).rejects.toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should end a shift clocked out during a break when the break started, past midnight', async () => {
+    setClock('2025-01-15T21:00:00Z');
+    await handler('clock_in')({ employee_id: 42 });
+    setClock('2025-01-16T01:00:00Z');
+    await handler('start_break')({ employee_id: 42 });
+    setClock('2025-01-16T01:20:00Z');
+
+    const result = await handler('clock_out')({ employee_id: 42 });
+
+    expect(result.attendance).toMatchObject({
+      date: '2025-01-15',
+      start_time: '22:00',
+      end_time: '02:00',
+      break_minutes: 0,
+      ends_next_day: true
+    });
+  });
+
+  it('should update a continued attendance on clock-out', async () => {
+    attendances = [{ id: 3, employee: 42, date: '2025-01-15', start_time: '08:00', end_time: '12:00', break: 0 }];
+    setClock('2025-01-15T12:00:00Z');
+    await handler('clock_in')({ employee_id: 42, continue_attendance_id: 3 });
+    setClock('2025-01-15T15:00:00Z');
+
+    await handler('clock_out')({ employee_id: 42 });
+
+    expect(created).toEqual([]);
+    expect(updated).toEqual([{ id: 3, data: { end_time: '16:00', break: 60 } }]);
+  });
+
+  it('should record a session once when clocked out twice at the same time', async () => {
+    setClock('2025-01-15T07:00:00Z');
+    await handler('clock_in')({ employee_id: 42 });
+    setClock('2025-01-15T11:00:00Z');
+
+    const results = await Promise.allSettled([
+      handler('clock_out')({ employee_id: 42 }),
+      handler('clock_out')({ employee_id: 42 })
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(created).toHaveLength(1);
+  });
+
+  it('should keep the session when the attendance cannot be recorded', async () => {
+    attendances = [{ id: 5, employee: 42, date: '2025-01-14', start_time: '22:00', end_time: '09:00', break: 60 }];
+    setClock('2025-01-15T07:00:00Z');
+    await handler('clock_in')({ employee_id: 42 });
+    setClock('2025-01-15T11:00:00Z');
+
+    await expect(handler('clock_out')({ employee_id: 42 })).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(await store.get(42)).toBeDefined();
+
+    failCreate = true;
+    await expect(handler('clock_out')({ employee_id: 42, allow_overlap: true })).rejects.toThrow('Personio is unavailable');
+    expect(await store.get(42)).toBeDefined();
+
+    failCreate = false;
+    const result = await handler('clock_out')({ employee_id: 42, allow_overlap: true });
+    expect(result.compliance_violations).toEqual([expect.objectContaining({ rule: 'min_rest', attendance_ids: [5] })]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should reject clock events without an open session', async () => {
+    await expect(handler('start_break')({ employee_id: 42 })).rejects.toThrow('Employee 42 is not clocked in');
+    await expect(handler('clock_out')({ employee_id: 42 })).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,136 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildTimesheetDays, expectedSchedule, summarizeTimesheet } from '../src/utils/timesheet';
+import { AttendanceTools } from '../src/tools/attendance';
+import { EmployeeDirectory } from '../src/utils/directory';
+
+const policy = {
+  standard_hours: { per_day: 8, per_week: 40, days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'] },
+  overtime: { rate_weekday: 1.5, rate_weekend: 2.0, rate_holiday: 2.5 }
+};
+const rates = { weekday: 1.5, weekend: 2, holiday: 2.5 };
+
+function employee(id: number, attributes: Record<string, any> = {}): any {
+  return {
+    type: 'Employee',
+    attributes: {
+      id: { value: id },
+      first_name: { value: 'Anna' },
+      last_name: { value: 'Schmidt' },
+      ...attributes
+    }
+  };
+}
+
+function attendance(id: number, date: string, start: string, end: string, breakMinutes = 0): any {
+  return { id, employee: 42, date, start_time: start, end_time: end, break: breakMinutes };
+}
+
+// Monday 2025-03-03 to Sunday 2025-03-09
+const attendances = [
+  attendance(1, '2025-03-03', '09:00', '19:00', 60),
+  attendance(2, '2025-03-04', '09:00', '17:00', 60),
+  attendance(3, '2025-03-06', '09:00', '13:00'),
+  attendance(4, '2025-03-07', '09:00', '18:00', 60),
+  attendance(5, '2025-03-08', '10:00', '14:00')
+];
+const absences: any[] = [{
+  id: 7,
+  status: 'approved',
+  start_date: '2025-03-05',
+  end_date: '2025-03-05',
+  half_day_start: false,
+  half_day_end: false,
+  time_off_type: { id: 1, name: 'Vacation' },
+  employee: { id: 42 }
+}];
+const holidays: any[] = [{ date: '2025-03-06', name: 'Company Day', type: 'company' }];
+
+describe('expectedSchedule', () => {
+  it('should spread contracted weekly hours over the policy days', () => {
+    const { schedule, source } = expectedSchedule(employee(1, { weekly_working_hours: { value: '30' } }), policy);
+
+    expect(source).toBe('weekly_working_hours');
+    expect(schedule.monday).toBe(6);
+    expect(schedule.saturday).toBe(0);
+  });
+
+  it('should fall back to the policy hours per day', () => {
+    expect(expectedSchedule(employee(1), policy)).toMatchObject({ source: 'policy', schedule: { friday: 8 } });
+  });
+});
+
+describe('timesheet', () => {
+  const days = buildTimesheetDays({
+    startDate: '2025-03-03',
+    endDate: '2025-03-09',
+    schedule: expectedSchedule(employee(42), policy).schedule,
+    attendances,
+    absences,
+    holidays
+  });
+
+  it('should drop expected hours on absences and holidays', () => {
+    expect(days.find((day) => day.date === '2025-03-05')).toMatchObject({ absence: 'Vacation', expected_hours: 0 });
+    expect(days.find((day) => day.date === '2025-03-06')).toMatchObject({ category: 'holiday', worked_hours: 4 });
+    expect(days.find((day) => day.date === '2025-03-08')).toMatchObject({ category: 'weekend', worked_hours: 4 });
+  });
+
+  it('should net weekday hours and weight weekend and holiday overtime', () => {
+    const [week] = summarizeTimesheet(days, rates, 'week');
+
+    expect(week).toEqual({
+      period: '2025-03-03',
+      start_date: '2025-03-03',
+      end_date: '2025-03-09',
+      expected_hours: 24,
+      worked_hours: 32,
+      balance_hours: 8,
+      overtime_hours: { weekday: 0, weekend: 4, holiday: 4, total: 8 },
+      undertime_hours: 0,
+      weighted_overtime_hours: 18
+    });
+  });
+
+  it('should report weekday shortfalls as undertime', () => {
+    const short = buildTimesheetDays({
+      startDate: '2025-03-03',
+      endDate: '2025-03-04',
+      schedule: expectedSchedule(employee(42), policy).schedule,
+      attendances: [attendance(1, '2025-03-03', '09:00', '20:00', 60), attendance(2, '2025-03-04', '09:00', '12:00')]
+    });
+    const [month] = summarizeTimesheet(short, rates, 'month');
+
+    expect(month).toMatchObject({ period: '2025-03', balance_hours: -3, undertime_hours: 3 });
+    expect(month.overtime_hours.total).toBe(0);
+  });
+});
+
+describe('attendance_summary tool', () => {
+  const directory = new EmployeeDirectory({} as any, {} as any, {} as any);
+  directory.getEmployees = async () => [employee(42)];
+  const client: any = {
+    getAllAttendances: async () => attendances,
+    getAllAbsences: async () => absences
+  };
+  const holidayCalendar: any = { getHolidaysBetween: async () => holidays };
+  const rateLimiter: any = { execute: (fn: () => Promise<any>) => fn() };
+  const tools = new AttendanceTools(client, {} as any, rateLimiter, directory, holidayCalendar, async () => policy);
+  const summary = tools.getTools().find((tool) => tool.name === 'attendance_summary')!;
+
+  it('should total a month per employee with the policy rates', async () => {
+    const result = await summary.handler({ employee_ids: [42], period: '2025-03', group_by: 'month' });
+
+    expect(result.overtime_rates).toEqual(rates);
+    expect(result.employees[0]).toMatchObject({
+      employee_id: 42,
+      name: 'Anna Schmidt',
+      expected_hours_source: 'policy',
+      totals: { worked_hours: 32, weighted_overtime_hours: 18 }
+    });
+    expect(result.employees[0].days).toBeUndefined();
+  });
+
+  it('should reject unknown employees', async () => {
+    await expect(summary.handler({ employee_ids: [7], period: '2025-03' })).rejects.toThrow('Unknown employee ID(s): 7');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateWorkingDays, scheduleFromEmployee, DEFAULT_WEEKLY_SCHEDULE } from '../src/utils/workingDays';
+import { getPublicHolidays } from '../src/utils/holidays';
+
+describe('calculateWorkingDays', () => {
+  it('should skip weekends and public holidays', () => {
+    // Easter week 2025: Good Friday 18 April and Easter Monday 21 April
+    const result = calculateWorkingDays({
+      startDate: '2025-04-14',
+      endDate: '2025-04-25',
+      holidays: getPublicHolidays(2025, 'DE')
+    });
+
+    expect(result.calendar_days).toBe(12);
+    expect(result.non_working_days).toBe(2);
+    expect(result.holidays.map((holiday) => holiday.name)).toEqual(['Good Friday', 'Easter Monday']);
+    expect(result.working_days).toBe(8);
+  });
+
+  it('should count half days at the start and end', () => {
+    const result = calculateWorkingDays({
+      startDate: '2025-03-03',
+      endDate: '2025-03-07',
+      halfDayStart: true,
+      halfDayEnd: true
+    });
+
+    expect(result.working_days).toBe(4);
+  });
+
+  it('should follow the employee weekly schedule', () => {
+    const employee: any = {
+      type: 'Employee',
+      attributes: {
+        work_schedule: {
+          value: {
+            attributes: {
+              monday: '08:00',
+              tuesday: '08:00',
+              wednesday: '04:30',
+              thursday: '00:00',
+              friday: '00:00',
+              saturday: '00:00',
+              sunday: '00:00'
+            }
+          }
+        }
+      }
+    };
+    const schedule = scheduleFromEmployee(employee);
+
+    expect(schedule?.wednesday).toBe(4.5);
+    expect(calculateWorkingDays({ startDate: '2025-03-03', endDate: '2025-03-09', schedule }).working_days).toBe(3);
+    expect(calculateWorkingDays({
+      startDate: '2025-03-03',
+      endDate: '2025-03-09',
+      schedule: DEFAULT_WEEKLY_SCHEDULE
+    }).working_days).toBe(5);
+  });
+});
\ No newline at end of file